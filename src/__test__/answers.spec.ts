@@ -0,0 +1,37 @@
+/**
+ * @file This file contains unit tests for file `../answers.ts`.
+ */
+import test from "ava";
+import * as S from "@effect/schema/Schema";
+import * as spec from "..";
+import * as answers from "../answers";
+
+test("Validate that answers are encoded via schemas of the properties", (c) => {
+  c.plan(1);
+  const inputSpec = {
+    message: {
+      type: spec.TYPE_MESSAGE,
+      orderNumber: 0,
+      message: "Message",
+    },
+    amount: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 1,
+      schema: S.NumberFromString,
+    },
+    when: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 2,
+      schema: S.Date,
+    },
+  } as const satisfies spec.InputSpec;
+  c.deepEqual(
+    answers.encodeAnswers(inputSpec, {
+      amount: 2,
+      when: new Date("2023-01-01T00:00:00.000Z"),
+      message: "Not part of answers",
+      unknown: "Not part of answers",
+    }),
+    { amount: "2", when: "2023-01-01T00:00:00.000Z" },
+  );
+});
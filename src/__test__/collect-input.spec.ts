@@ -0,0 +1,376 @@
+/**
+ * @file This file contains unit tests for file `../collect-input.ts`.
+ */
+import test from "ava";
+import * as S from "@effect/schema/Schema";
+import * as F from "@effect/data/Function";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as spec from "..";
+import * as answers from "../answers";
+
+const inputSpec = {
+  flagged: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 0,
+    schema: F.pipe(S.number, S.int()),
+    prompt: { type: "number", message: "Flagged" },
+    flag: { type: "number", shortFlag: "f" },
+  },
+  positional: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 1,
+    schema: S.string,
+    prompt: { type: "input", message: "Positional" },
+  },
+} as const satisfies spec.InputSpec;
+
+test("Validate that non-interactive mode reports all issues at once", async (c) => {
+  c.plan(3);
+  const events: Array<spec.PrintEvent> = [];
+  const { cliArgs } = await spec.createCLIArgs({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--flagged", "1.5"],
+    configFile: { fileNames: [] },
+  });
+  const error = await c.throwsAsync(
+    spec.collectInput(inputSpec)({
+      cliArgs,
+      inputValidator: (input) => Promise.resolve(input),
+      getDynamicValueInput: () => undefined,
+      printer: (event) => events.push(event),
+      isInteractive: false,
+    }),
+    { instanceOf: spec.NonInteractiveInputError },
+  );
+  c.deepEqual(
+    error?.issues.map(({ kind }) => kind),
+    ["invalid", "missing"],
+  );
+  c.deepEqual(
+    events.filter(({ kind }) => kind === "nonInteractiveReport").length,
+    1,
+  );
+});
+
+test("Validate that non-interactive mode reports input validator errors", async (c) => {
+  c.plan(2);
+  const error = await c.throwsAsync(
+    spec.collectInput(inputSpec)({
+      cliArgs: { flags: { flagged: 1 }, input: ["value"] },
+      inputValidator: () => Promise.resolve([["flagged", "Too small"]]),
+      getDynamicValueInput: () => undefined,
+      printer: spec.silentPrinter,
+      isInteractive: false,
+    }),
+    { instanceOf: spec.NonInteractiveInputError },
+  );
+  c.deepEqual(error?.issues, [
+    {
+      kind: "validation",
+      propertyName: "flagged",
+      cliHint: "--flagged (-f)",
+      errorMessage: "Too small",
+    },
+  ]);
+});
+
+test("Validate that environment variables are used when CLI arguments are missing", async (c) => {
+  c.plan(2);
+  const events: Array<spec.PrintEvent> = [];
+  const result = await spec.collectInput({
+    flagged: { ...inputSpec.flagged, env: true },
+    positional: { ...inputSpec.positional, env: "POSITIONAL" },
+  } as const)({
+    cliArgs: { flags: { flagged: undefined }, input: [] },
+    inputValidator: (input) => Promise.resolve(input),
+    getDynamicValueInput: () => undefined,
+    printer: (event) => events.push(event),
+    isInteractive: false,
+    env: { TEST_FLAGGED: "42", POSITIONAL: "value" },
+    envPrefix: "TEST_",
+  });
+  c.deepEqual(result, { flagged: 42, positional: "value" });
+  c.deepEqual(
+    events.flatMap((event) =>
+      event.kind === "valueUsed" ? [event.origin] : [],
+    ),
+    [
+      { type: "env", variableName: "TEST_FLAGGED" },
+      { type: "env", variableName: "POSITIONAL" },
+    ],
+  );
+});
+
+test("Validate that configuration file is used below environment variables, and unknown keys are reported", async (c) => {
+  c.plan(2);
+  const events: Array<spec.PrintEvent> = [];
+  const result = await spec.collectInput({
+    ...inputSpec,
+    flagged: { ...inputSpec.flagged, env: true },
+  } as const)({
+    cliArgs: { flags: { flagged: undefined }, input: [] },
+    inputValidator: (input) => Promise.resolve(input),
+    getDynamicValueInput: () => undefined,
+    printer: (event) => events.push(event),
+    isInteractive: false,
+    env: { FLAGGED: "1" },
+    config: {
+      filePath: "/config.json",
+      values: { flagged: 2, positional: "value", unknown: true },
+    },
+  });
+  c.deepEqual(result, { flagged: 1, positional: "value" });
+  c.deepEqual(
+    events.filter(({ kind }) => kind === "configUnknownKeys"),
+    [
+      {
+        kind: "configUnknownKeys",
+        level: "warn",
+        filePath: "/config.json",
+        unknownKeys: ["unknown"],
+      },
+    ],
+  );
+});
+
+test("Validate that positional CLI arguments are mapped by their declared positions", async (c) => {
+  c.plan(1);
+  const positionalSpec = {
+    second: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 0,
+      schema: S.string,
+      prompt: { type: "input", message: "Second" },
+      positional: 1,
+    },
+    first: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 1,
+      schema: S.string,
+      prompt: { type: "input", message: "First" },
+      positional: 0,
+    },
+    rest: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 2,
+      schema: S.array(S.string),
+      prompt: { type: "input", message: "Rest" },
+      positional: spec.POSITIONAL_REST,
+    },
+  } as const satisfies spec.InputSpec;
+  c.deepEqual(
+    await spec.collectInput(positionalSpec)({
+      cliArgs: { flags: {}, input: ["a", "b", "c", "d"] },
+      inputValidator: (input) => Promise.resolve(input),
+      getDynamicValueInput: () => undefined,
+      printer: spec.silentPrinter,
+      isInteractive: false,
+    }),
+    { first: "a", second: "b", rest: ["c", "d"] },
+  );
+});
+
+test("Validate that collected input is recorded to answers file, and replayed from it", async (c) => {
+  c.plan(3);
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "meow-inquirer-"));
+  try {
+    const saveAnswers = path.join(dir, "answers.json");
+    await spec.collectInput(inputSpec)({
+      cliArgs: { flags: { flagged: 1 }, input: ["value"] },
+      inputValidator: (input) => Promise.resolve(input),
+      getDynamicValueInput: () => undefined,
+      printer: spec.silentPrinter,
+      isInteractive: false,
+      saveAnswers,
+    });
+    const answersFile = await answers.readAnswersFile(saveAnswers);
+    c.deepEqual(answersFile.values, { flagged: 1, positional: "value" });
+    const events: Array<spec.PrintEvent> = [];
+    const result = await spec.collectInput(inputSpec)({
+      cliArgs: { flags: { flagged: 3 }, input: [] },
+      inputValidator: (input) => Promise.resolve(input),
+      getDynamicValueInput: () => undefined,
+      printer: (event) => events.push(event),
+      isInteractive: false,
+      answers: answersFile,
+    });
+    // CLI arguments take precedence over answers
+    c.deepEqual(result, { flagged: 3, positional: "value" });
+    c.deepEqual(
+      events.flatMap((event) =>
+        event.kind === "valueUsed" ? [event.origin.type] : [],
+      ),
+      ["cli", "answers"],
+    );
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("Validate that values from CLI arguments and prompts are decoded via schema", async (c) => {
+  c.plan(3);
+  const decodingSpec = {
+    amount: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 0,
+      schema: S.NumberFromString,
+      flag: true,
+    },
+    name: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 1,
+      schema: S.Trim,
+    },
+  } as const satisfies spec.InputSpec;
+  c.deepEqual(
+    await spec.collectInput(decodingSpec)({
+      cliArgs: { flags: { amount: "42" }, input: [] },
+      inputValidator: (input) => Promise.resolve(input),
+      getDynamicValueInput: () => undefined,
+      prompter: spec.createScriptedPrompter(["  padded  "]),
+      printer: spec.silentPrinter,
+      env: {},
+    }),
+    { amount: 42, name: "padded" },
+  );
+  const error = await c.throwsAsync(
+    spec.collectInput(decodingSpec)({
+      cliArgs: { flags: { amount: "many" }, input: ["name"] },
+      inputValidator: (input) => Promise.resolve(input),
+      getDynamicValueInput: () => undefined,
+      printer: spec.silentPrinter,
+      isInteractive: false,
+      env: {},
+    }),
+    { instanceOf: spec.NonInteractiveInputError },
+  );
+  c.like(error?.issues[0], {
+    kind: "invalid",
+    propertyName: "amount",
+    value: "many",
+    errorMessage: `error(s) found
+└─ Expected string -> number, actual "many"`,
+  });
+});
+
+test("Validate that review step lets user re-enter values and re-evaluates conditions", async (c) => {
+  c.plan(3);
+  const reviewSpec = {
+    kind: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 0,
+      schema: S.literal("app", "lib"),
+      flag: true,
+    },
+    port: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 1,
+      schema: S.number,
+      flag: true,
+      condition: {
+        description: "only for apps",
+        isApplicable: ({ kind }: { kind?: string }) => kind === "app",
+      },
+    },
+    name: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 2,
+      schema: S.string,
+    },
+  } as const satisfies spec.InputSpec<{ kind?: string }>;
+  const events: Array<spec.PrintEvent> = [];
+  const prompts: Array<string> = [];
+  const scripted = spec.createScriptedPrompter(["my-lib", "kind", "lib", true]);
+  c.deepEqual(
+    await spec.collectInput(reviewSpec)({
+      cliArgs: { flags: { kind: "app", port: 8080 }, input: [] },
+      inputValidator: (input) => Promise.resolve(input),
+      getDynamicValueInput: (values) => values,
+      prompter: (request) => (
+        prompts.push(request.propertyName), scripted(request)
+      ),
+      printer: (event) => events.push(event),
+      env: {},
+      review: true,
+    }),
+    { kind: "lib", name: "my-lib" },
+  );
+  c.deepEqual(prompts, ["name", "", "kind", ""]);
+  c.deepEqual(
+    events.flatMap((event) =>
+      event.kind === "review"
+        ? [
+            event.entries.map(({ propertyName, origin }) => [
+              propertyName,
+              origin,
+            ]),
+          ]
+        : [],
+    ),
+    [
+      [
+        ["kind", { type: "cli", isFlag: true }],
+        ["port", { type: "cli", isFlag: true }],
+        ["name", "prompt"],
+      ],
+      [
+        ["kind", "prompt"],
+        ["name", "prompt"],
+      ],
+    ],
+  );
+});
+
+test("Validate that input collection stops when attempts are exceeded", async (c) => {
+  c.plan(4);
+  const rejectAll: spec.InputValidator<typeof inputSpec, never> = () =>
+    Promise.resolve([["positional", "Always wrong."]]);
+  const totalError = await c.throwsAsync(
+    spec.collectInput(inputSpec)({
+      cliArgs: { flags: { flagged: 1 }, input: [] },
+      inputValidator: rejectAll,
+      getDynamicValueInput: () => undefined,
+      prompter: spec.createScriptedPrompter(["a", "b", "c"]),
+      printer: spec.silentPrinter,
+      env: {},
+      maxAttempts: 2,
+    }),
+    { instanceOf: spec.InputCollectionStoppedError },
+  );
+  c.deepEqual(totalError?.reason, { kind: "attemptsExceeded", maxAttempts: 2 });
+  const propertyError = await c.throwsAsync(
+    spec.collectInput(inputSpec)({
+      cliArgs: { flags: { flagged: 1 }, input: [] },
+      inputValidator: rejectAll,
+      getDynamicValueInput: () => undefined,
+      prompter: spec.createScriptedPrompter(["a", "b", "c"]),
+      printer: spec.silentPrinter,
+      env: {},
+      maxAttemptsPerProperty: 2,
+    }),
+    { instanceOf: spec.InputCollectionStoppedError },
+  );
+  c.deepEqual(propertyError?.partialInput, { flagged: 1 });
+});
+
+test("Validate that input collection is cancelled via signal", async (c) => {
+  c.plan(2);
+  const controller = new AbortController();
+  const error = await c.throwsAsync(
+    spec.collectInput(inputSpec)({
+      cliArgs: { flags: { flagged: 1 }, input: [] },
+      inputValidator: (input) => Promise.resolve(input),
+      getDynamicValueInput: () => undefined,
+      // Never answers, until aborted
+      prompter: () => (controller.abort("exiting"), new Promise(() => {})),
+      printer: spec.silentPrinter,
+      env: {},
+      signal: controller.signal,
+    }),
+    { instanceOf: spec.InputCollectionStoppedError },
+  );
+  c.deepEqual(error?.reason, { kind: "cancelled", cause: "exiting" });
+});
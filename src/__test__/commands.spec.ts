@@ -0,0 +1,221 @@
+/**
+ * @file This file contains unit tests for file `../commands.ts`.
+ */
+import test from "ava";
+import * as E from "@effect/data/Either";
+import * as S from "@effect/schema/Schema";
+import * as spec from "..";
+
+const globalInputSpec = {
+  verbose: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 100,
+    schema: S.boolean,
+    flag: true,
+  },
+} as const satisfies spec.InputSpec;
+
+const initInputSpec = {
+  dir: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 0,
+    schema: S.string,
+    flag: true,
+  },
+} as const satisfies spec.InputSpec;
+
+const addInputSpec = {
+  name: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 0,
+    schema: S.string,
+    flag: true,
+  },
+} as const satisfies spec.InputSpec;
+
+const packageName = "my-package";
+
+const commands = {
+  init: spec.defineCommand({
+    description: "Initialize new project",
+    inputSpec: initInputSpec,
+    getDynamicValueInput: () => undefined,
+    inputValidator: ({ dir }) => Promise.resolve({ initialized: dir }),
+  }),
+  add: spec.defineCommand({
+    description: "Add package",
+    inputSpec: addInputSpec,
+    getDynamicValueInput: () => undefined,
+    inputValidator: ({ name }) => Promise.resolve({ added: name }),
+  }),
+};
+
+test("Validate that the command given as first argument is run with its own input specification", async (c) => {
+  c.plan(2);
+  const { result, prompts } = await spec.testCommands({
+    importMeta: import.meta,
+    commands,
+    argv: ["add", "--name", packageName],
+  });
+  c.deepEqual(
+    E.mapRight(result, ({ command, validatedInput }) => ({
+      command,
+      validatedInput,
+    })),
+    E.right({ command: "add", validatedInput: { added: packageName } }),
+  );
+  c.deepEqual(prompts, []);
+});
+
+test("Validate that global input specification is merged to input specification of each command", async (c) => {
+  c.plan(2);
+  const { result, prompts } = await spec.testCommands({
+    importMeta: import.meta,
+    commands,
+    globalInputSpec,
+    argv: ["init", "--dir", "my-dir"],
+    answers: [true],
+  });
+  c.deepEqual(
+    E.mapRight(result, ({ validatedInput, globalInput }) => ({
+      validatedInput,
+      globalInput,
+    })),
+    E.right({
+      validatedInput: { initialized: "my-dir" },
+      globalInput: { verbose: true },
+    }),
+  );
+  c.deepEqual(
+    prompts.map(({ propertyName }) => propertyName),
+    ["verbose"],
+  );
+});
+
+test("Validate that the result is discriminated by the name of the command", async (c) => {
+  c.plan(3);
+  const { result } = await spec.testCommands({
+    importMeta: import.meta,
+    commands,
+    globalInputSpec,
+    argv: ["init", "--dir", "my-dir", "--no-verbose"],
+  });
+  if (E.isRight(result)) {
+    const { packageRoot, help, ...rest } = result.right;
+    c.deepEqual(rest, {
+      command: "init",
+      validatedInput: { initialized: "my-dir" },
+      globalInput: { verbose: false },
+    });
+    c.is(typeof packageRoot, "string");
+    c.is(typeof help, "string");
+  } else {
+    c.fail("Expected result to be Right.");
+  }
+});
+
+test("Validate that help text of each command lists its own and global options", async (c) => {
+  c.plan(5);
+  const { result } = await spec.testCommands({
+    importMeta: import.meta,
+    commands,
+    globalInputSpec,
+    argv: ["add", "--help", "--name", packageName, "--verbose"],
+  });
+  const help = E.isRight(result) ? result.right.help : "";
+  c.true(help.includes(" add "));
+  c.true(help.includes("--name"));
+  c.true(help.includes("--verbose"));
+  c.false(help.includes("--dir"));
+  // The auto-added flags are listed with their kebab case names
+  c.true(help.includes("--save-answers <file>"));
+});
+
+test("Validate that unknown command is reported as error when help is not handled automatically", async (c) => {
+  c.plan(2);
+  const { result } = await spec.testCommands({
+    importMeta: import.meta,
+    commands,
+    argv: ["remove"],
+  });
+  c.true(
+    E.isLeft(result) &&
+      result.left instanceof spec.UnknownCommandError &&
+      result.left.commandName === "remove",
+  );
+  c.true(
+    E.isLeft(result) &&
+      result.left instanceof spec.UnknownCommandError &&
+      result.left.help.includes("Initialize new project"),
+  );
+});
+
+test("Validate that global flags can be given before the name of the command", async (c) => {
+  c.plan(2);
+  const { result: booleanFlag } = await spec.testCommands({
+    importMeta: import.meta,
+    commands,
+    globalInputSpec,
+    argv: ["--verbose", "add", "--name", packageName],
+  });
+  c.deepEqual(
+    E.mapRight(booleanFlag, ({ command, globalInput }) => ({
+      command,
+      globalInput,
+    })),
+    E.right({ command: "add", globalInput: { verbose: true } }),
+  );
+  const { result: valueFlag } = await spec.testCommands({
+    importMeta: import.meta,
+    commands,
+    globalInputSpec: {
+      profile: {
+        type: spec.TYPE_VALIDATE,
+        orderNumber: 100,
+        schema: S.string,
+        flag: true,
+      },
+    } as const satisfies spec.InputSpec,
+    // The value of the flag is not mistaken for the name of the command
+    argv: ["--profile", "init", "add", "--name", packageName],
+  });
+  c.deepEqual(
+    E.mapRight(valueFlag, ({ command, globalInput }) => ({
+      command,
+      globalInput,
+    })),
+    E.right({ command: "add", globalInput: { profile: "init" } }),
+  );
+});
+
+test("Validate that properties of command colliding with global input specification are reported", async (c) => {
+  c.plan(2);
+  const { result } = await spec.testCommands({
+    importMeta: import.meta,
+    commands: {
+      ...commands,
+      log: spec.defineCommand({
+        description: "Show log",
+        inputSpec: {
+          verbose: {
+            type: spec.TYPE_VALIDATE,
+            orderNumber: 0,
+            schema: S.string,
+            flag: true,
+          },
+        } as const satisfies spec.InputSpec,
+        getDynamicValueInput: () => undefined,
+        inputValidator: (input) => Promise.resolve(input),
+      }),
+    },
+    globalInputSpec,
+    argv: ["log", "--verbose", "full"],
+  });
+  c.true(E.isLeft(result) && result.left instanceof spec.InvalidInputSpecError);
+  c.deepEqual(
+    E.isLeft(result) && result.left instanceof spec.InvalidInputSpecError
+      ? result.left.diagnostics
+      : [],
+    [{ kind: "globalPropertyCollision", propertyName: "verbose" }],
+  );
+});
@@ -0,0 +1,50 @@
+/**
+ * @file This file contains unit tests for file `../config-file.ts`.
+ */
+import test from "ava";
+import * as S from "@effect/schema/Schema";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as spec from "..";
+
+const inputSpec = {
+  name: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 0,
+    schema: S.string,
+    flag: true,
+  },
+} as const satisfies spec.InputSpec;
+
+test("Validate that configuration file is discovered from, and explicit path resolved against, given directory", async (c) => {
+  c.plan(2);
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "meow-inquirer-"));
+  try {
+    const discoveredPath = path.join(dir, "my-tool.config.json");
+    const explicitPath = path.join(dir, "other.json");
+    await fs.writeFile(discoveredPath, '{ "name": "discovered" }', "utf8");
+    await fs.writeFile(explicitPath, '{ "name": "explicit" }', "utf8");
+    const getConfig = async (argv: ReadonlyArray<string>) =>
+      (
+        await spec.createCLIArgs({
+          importMeta: import.meta,
+          inputSpec,
+          argv,
+          configFile: { cwd: dir, fileNames: ["my-tool.config.json"] },
+          autoHelp: false,
+          autoVersion: false,
+        })
+      ).config;
+    c.deepEqual(await getConfig([]), {
+      filePath: discoveredPath,
+      values: { name: "discovered" },
+    });
+    c.deepEqual(await getConfig(["--config", "other.json"]), {
+      filePath: explicitPath,
+      values: { name: "explicit" },
+    });
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
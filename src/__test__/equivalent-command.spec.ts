@@ -0,0 +1,89 @@
+/**
+ * @file This file contains unit tests for file `../equivalent-command.ts`.
+ */
+import test from "ava";
+import * as S from "@effect/schema/Schema";
+import * as spec from "..";
+
+test("Validate that equivalent command contains flags and quoted positional arguments", (c) => {
+  c.plan(1);
+  const inputSpec = {
+    folderName: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 0,
+      schema: S.string,
+    },
+    packageManager: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 1,
+      schema: S.literal("yarn", "npm"),
+      flag: "m",
+    },
+    port: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 2,
+      schema: S.NumberFromString,
+      flag: true,
+    },
+    verbose: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 3,
+      schema: S.boolean,
+      flag: true,
+    },
+    tags: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 4,
+      schema: S.array(S.string),
+      flag: true,
+    },
+  } as const satisfies spec.InputSpec;
+  c.deepEqual(
+    spec.getEquivalentCommand("npx my-tool@latest", inputSpec, {
+      folderName: "./it's my project",
+      packageManager: "yarn",
+      port: 3000,
+      verbose: false,
+      tags: ["a", "b c"],
+    }),
+    "npx my-tool@latest --package-manager yarn --port 3000 --no-verbose --tags a --tags 'b c' --no-interactive './it'\\''s my project'",
+  );
+});
+
+test("Validate that equivalent command omits positional arguments after missing positional value", (c) => {
+  c.plan(2);
+  const inputSpec = {
+    source: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 0,
+      schema: S.string,
+      positional: 0,
+    },
+    target: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 1,
+      schema: S.string,
+      positional: 1,
+    },
+    files: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 2,
+      schema: S.array(S.string),
+      positional: spec.POSITIONAL_REST,
+    },
+  } as const satisfies spec.InputSpec;
+  c.is(
+    spec.getEquivalentCommand("my-tool", inputSpec, {
+      target: "dist",
+      files: ["a.txt"],
+    }),
+    "my-tool --no-interactive",
+  );
+  c.is(
+    spec.getEquivalentCommand("my-tool", inputSpec, {
+      source: "src",
+      files: ["a.txt"],
+    }),
+    "my-tool --no-interactive src",
+  );
+});
@@ -0,0 +1,82 @@
+/**
+ * @file This file contains unit tests for file `../flags.ts`.
+ */
+import test from "ava";
+import * as S from "@effect/schema/Schema";
+import * as F from "@effect/data/Function";
+import * as flags from "../flags";
+import { createValidationSpec } from "./validation-spec";
+
+test("Validate that flag shorthand is deduced from schema", (c) => {
+  c.plan(6);
+  c.deepEqual(
+    flags.getFlag("value", createValidationSpec(S.string)),
+    undefined,
+  );
+  c.deepEqual(
+    flags.getFlag("value", createValidationSpec(S.number, { flag: true })),
+    {
+      type: "number",
+    },
+  );
+  c.deepEqual(
+    flags.getFlag("value", createValidationSpec(S.boolean, { flag: "v" })),
+    {
+      type: "boolean",
+      shortFlag: "v",
+    },
+  );
+  c.deepEqual(
+    flags.getFlag(
+      "value",
+      createValidationSpec(S.literal("yarn", "npm"), { flag: true }),
+    ),
+    { type: "string" },
+  );
+  c.deepEqual(
+    flags.getFlag(
+      "value",
+      createValidationSpec(F.pipe(S.array(S.number), S.minItems(1)), {
+        flag: true,
+      }),
+    ),
+    { type: "number", isMultiple: true },
+  );
+  c.deepEqual(
+    flags.getFlag(
+      "value",
+      createValidationSpec(S.NumberFromString, { flag: true }),
+    ),
+    {
+      type: "string",
+    },
+  );
+});
+
+test("Validate that explicit flag incompatible with schema is rejected", (c) => {
+  c.plan(3);
+  const flag = { type: "number", shortFlag: "v" } as const;
+  c.deepEqual(
+    flags.getFlag("value", createValidationSpec(S.number, { flag: flag })),
+    flag,
+  );
+  c.throws(
+    () =>
+      flags.getFlag("value", createValidationSpec(S.string, { flag: flag })),
+    {
+      message:
+        'The flag of property "value" is number, but its schema expects string.',
+    },
+  );
+  c.throws(
+    () =>
+      flags.getFlag(
+        "value",
+        createValidationSpec(S.array(S.string), { flag: { type: "string" } }),
+      ),
+    {
+      message:
+        'The flag of property "value" is string, but its schema expects multiple string.',
+    },
+  );
+});
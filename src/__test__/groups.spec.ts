@@ -0,0 +1,123 @@
+/**
+ * @file This file contains unit tests for file `../groups.ts`.
+ */
+import test from "ava";
+import * as E from "@effect/data/Either";
+import * as S from "@effect/schema/Schema";
+import * as spec from "..";
+
+const inputSpec = {
+  name: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 0,
+    schema: S.string,
+    flag: true,
+  },
+  db: {
+    type: spec.TYPE_GROUP,
+    orderNumber: 1,
+    message: "Database",
+    condition: {
+      description: "only when using database",
+      isApplicable: ({ name }: { name?: string }) => name !== "static",
+    },
+    properties: {
+      host: {
+        type: spec.TYPE_VALIDATE,
+        orderNumber: 0,
+        schema: S.string,
+        flag: true,
+      },
+      port: {
+        type: spec.TYPE_VALIDATE,
+        orderNumber: 1,
+        schema: S.number,
+        flag: true,
+      },
+    },
+  },
+  verbose: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 2,
+    schema: S.boolean,
+    flag: true,
+  },
+} as const satisfies spec.InputSpec<{ name?: string }>;
+
+test("Validate that group properties are collected from prefixed flags and prompts into nested object", async (c) => {
+  c.plan(3);
+  const { validatedInput, messages, prompts } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--name", "app", "--db-host", "localhost", "--verbose"],
+    answers: [5432],
+    getDynamicValueInput: (values) => values,
+    inputValidator: spec.createInputValidator(inputSpec),
+  });
+  c.deepEqual(
+    validatedInput,
+    E.right({
+      name: "app",
+      db: { host: "localhost", port: 5432 },
+      verbose: true,
+    }),
+  );
+  c.true(messages.includes("Database"));
+  c.deepEqual(
+    prompts.map(({ propertyName }) => propertyName),
+    ["dbPort"],
+  );
+});
+
+test("Validate that group is skipped along with its heading when its condition is not applicable", async (c) => {
+  c.plan(3);
+  const { validatedInput, messages, prompts } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--name", "static", "--no-verbose"],
+    getDynamicValueInput: (values) => values,
+    inputValidator: spec.createInputValidator(inputSpec),
+  });
+  c.deepEqual(validatedInput, E.right({ name: "static", verbose: false }));
+  c.false(messages.includes("Database"));
+  c.deepEqual(prompts, []);
+});
+
+test("Validate that validation error of group causes re-prompting all of its properties", async (c) => {
+  c.plan(2);
+  const { validatedInput, prompts } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--name", "app", "--db-host", "localhost", "--db-port", "80"],
+    answers: [true, "db.example.com", 5432],
+    getDynamicValueInput: (values) => values,
+    inputValidator: spec.createInputValidator(inputSpec, ({ db }) =>
+      db !== undefined && db.port < 1024
+        ? [["db", "Privileged ports are not allowed."]]
+        : [],
+    ),
+  });
+  c.deepEqual(
+    validatedInput,
+    E.right({
+      name: "app",
+      db: { host: "db.example.com", port: 5432 },
+      verbose: true,
+    }),
+  );
+  c.deepEqual(
+    prompts.map(({ propertyName }) => propertyName),
+    ["verbose", "dbHost", "dbPort"],
+  );
+});
+
+test("Validate that equivalent command uses prefixed flags for nested input", (c) => {
+  c.plan(1);
+  c.is(
+    spec.getEquivalentCommand("my-tool", inputSpec, {
+      name: "app",
+      db: { host: "localhost", port: 5432 },
+    }),
+    "my-tool --name app --db-host localhost --db-port 5432 --no-interactive",
+  );
+});
@@ -0,0 +1,155 @@
+/**
+ * @file This file contains unit tests for file `../help-text.ts`.
+ */
+import test from "ava";
+import * as S from "@effect/schema/Schema";
+import * as spec from "..";
+import getHelpText from "../help-text";
+
+const inputSpec = {
+  general: {
+    type: spec.TYPE_MESSAGE,
+    orderNumber: 0,
+    message: "General",
+  },
+  folderName: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 1,
+    schema: S.string,
+    positional: 0,
+  },
+  files: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 2,
+    schema: S.array(S.string),
+    positional: spec.POSITIONAL_REST,
+  },
+  packageManager: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 3,
+    schema: S.literal("yarn", "npm"),
+    flag: { type: "string", shortFlag: "m", default: "npm" },
+    prompt: { default: "yarn" },
+    env: true,
+  },
+  server: {
+    type: spec.TYPE_MESSAGE,
+    orderNumber: 4,
+    message: "Server",
+  },
+  port: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 5,
+    schema: S.number,
+    flag: true,
+    prompt: { default: 8080 },
+  },
+} as const satisfies spec.InputSpec;
+
+const getText = (options?: spec.HelpTextOptions) =>
+  getHelpText({
+    inputSpec,
+    invocation: "npx my-tool@latest",
+    envPrefix: "MY_TOOL_",
+    autoFlags: { "--no-interactive": "Never prompt." },
+    options,
+  });
+
+test("Validate that usage line and arguments section contain positional placeholders", (c) => {
+  c.plan(2);
+  const text = getText();
+  c.true(
+    text.includes(
+      "Usage: npx my-tool@latest [options...] [folderName] [files...]\n",
+    ),
+  );
+  c.true(
+    text.includes(
+      `Arguments:
+    [folderName]\tfolderName
+          Schema: string
+    [files...]\tfiles
+          Schema: Array<string>
+`,
+    ),
+  );
+});
+
+test("Validate that options are grouped under message headings, followed by automatic flags", (c) => {
+  c.plan(1);
+  c.true(
+    getText().includes(
+      `Options:
+    General
+    --package-manager, -m <string>\tpackageManager
+          Default: "npm"
+          Schema: "yarn"|"npm"
+    Server
+    --port <number>\tport
+          Default: 8080
+          Schema: number
+    --no-interactive\tNever prompt.
+`,
+    ),
+  );
+});
+
+test("Validate that default of flag takes precedence over default of prompt", (c) => {
+  c.plan(2);
+  const text = getText();
+  // The flag of packageManager has default, so default of its prompt is not shown
+  c.false(text.includes('Default: "yarn"'));
+  // The flag of port has no default, so default of its prompt is shown
+  c.true(text.includes("Default: 8080"));
+});
+
+test("Validate that environment variables, custom sections, and examples are rendered in order", (c) => {
+  c.plan(2);
+  const text = getText({
+    description: "My tool.",
+    invocation: "my-tool",
+    sections: [
+      { title: "Notes", content: ["First note.", "Second note."] },
+      { title: "License", content: "MIT" },
+    ],
+    examples: ["./my-project -m yarn"],
+  });
+  c.true(text.startsWith("\n  My tool.\n\n  Usage: my-tool [options...]"));
+  c.true(
+    text.endsWith(`
+  Environment variables (used when CLI argument is omitted):
+    MY_TOOL_PACKAGE_MANAGER\tThe value for "packageManager"
+
+  Notes:
+    First note.
+    Second note.
+
+  License:
+    MIT
+
+  Examples:
+    $ my-tool ./my-project -m yarn
+`),
+  );
+});
+
+test("Validate that sections without content are omitted", (c) => {
+  c.plan(3);
+  const text = getHelpText({
+    inputSpec: {
+      port: {
+        type: spec.TYPE_VALIDATE,
+        orderNumber: 0,
+        schema: S.number,
+        flag: true,
+      },
+    },
+    invocation: "my-tool",
+    envPrefix: undefined,
+    autoFlags: {},
+    options: undefined,
+  });
+  c.false(text.includes("Arguments:"));
+  c.false(text.includes("Environment variables"));
+  c.false(text.includes("Examples:"));
+});
@@ -0,0 +1,96 @@
+/**
+ * @file This file contains unit tests for file `../input-validator.ts`.
+ */
+import test from "ava";
+import * as E from "@effect/data/Either";
+import * as S from "@effect/schema/Schema";
+import * as F from "@effect/data/Function";
+import * as spec from "..";
+
+const TO_ERROR = "Must not be less than from.";
+
+const inputSpec = {
+  from: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 0,
+    schema: S.number,
+    flag: true,
+  },
+  to: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 1,
+    schema: S.number,
+    flag: true,
+  },
+  comment: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 2,
+    schema: F.pipe(S.string, S.nonEmpty()),
+    flag: true,
+    condition: {
+      description: "only when asked",
+      isApplicable: () => false,
+    },
+  },
+} as const satisfies spec.InputSpec;
+
+test("Validate that input validator accepts input which matches the schemas", async (c) => {
+  c.plan(2);
+  const validator = spec.createInputValidator(inputSpec);
+  c.deepEqual(await validator({ from: 1, to: 2 }), { from: 1, to: 2 });
+  c.deepEqual(await validator({ from: 1, to: 2, comment: "Hi" }), {
+    from: 1,
+    to: 2,
+    comment: "Hi",
+  });
+});
+
+test("Validate that input validator reports only offending properties", async (c) => {
+  c.plan(3);
+  const validator = spec.createInputValidator(inputSpec);
+  const result = await validator({ to: 2 });
+  c.true(Array.isArray(result));
+  c.deepEqual(
+    (result as Array<readonly [string, string]>).map(([key]) => key),
+    ["from"],
+  );
+  // Conditional properties are validated when they are present
+  c.deepEqual(
+    (
+      (await validator({
+        from: 1,
+        to: 2,
+        comment: "",
+      })) as Array<readonly [string, string]>
+    ).map(([key]) => key),
+    ["comment"],
+  );
+});
+
+test("Validate that input validator runs the additional check after schema validation", async (c) => {
+  c.plan(2);
+  const validator = spec.createInputValidator(inputSpec, ({ from, to }) =>
+    from <= to ? [] : [["to", TO_ERROR]],
+  );
+  c.deepEqual(await validator({ from: 1, to: 1 }), { from: 1, to: 1 });
+  c.deepEqual(await validator({ from: 2, to: 1 }), [["to", TO_ERROR]]);
+});
+
+test("Validate that input validator causes re-prompting only the offending properties", async (c) => {
+  c.plan(2);
+  const { validatedInput, prompts } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--from", "5", "--to", "3"],
+    answers: [7],
+    getDynamicValueInput: (values) => values,
+    inputValidator: spec.createInputValidator(inputSpec, ({ from, to }) =>
+      from <= to ? [] : [["to", TO_ERROR]],
+    ),
+  });
+  c.deepEqual(validatedInput, E.right({ from: 5, to: 7 }));
+  c.deepEqual(
+    prompts.map(({ propertyName }) => propertyName),
+    ["to"],
+  );
+});
@@ -0,0 +1,125 @@
+/**
+ * @file This file contains unit tests for file `../lists.ts`.
+ */
+import test from "ava";
+import * as E from "@effect/data/Either";
+import * as S from "@effect/schema/Schema";
+import * as spec from "..";
+
+const inputSpec = {
+  tags: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 0,
+    schema: S.string,
+    flag: true,
+    list: { max: 2 },
+  },
+  ports: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 1,
+    schema: S.number,
+    flag: true,
+    list: { min: 1 },
+  },
+} as const satisfies spec.InputSpec;
+
+test("Validate that list items are taken from repeated and comma-separated CLI flags", async (c) => {
+  c.plan(2);
+  const { validatedInput, prompts } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--tags", "web", "--ports", "80, 443", "--ports", "8080"],
+    inputValidator: spec.createInputValidator(inputSpec),
+  });
+  c.deepEqual(
+    validatedInput,
+    E.right({ tags: ["web"], ports: [80, 443, 8080] }),
+  );
+  c.deepEqual(prompts, []);
+});
+
+test("Validate that list items are prompted until user stops or maximum is reached", async (c) => {
+  c.plan(2);
+  const { validatedInput, prompts } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    answers: [true, "web", true, "api", 80, false],
+    inputValidator: spec.createInputValidator(inputSpec),
+  });
+  c.deepEqual(validatedInput, E.right({ tags: ["web", "api"], ports: [80] }));
+  c.deepEqual(
+    prompts.map(({ propertyName }) => propertyName),
+    // No confirmation before minimum amount of ports, and after maximum amount of tags
+    ["", "tags[0]", "", "tags[1]", "ports[0]", ""],
+  );
+});
+
+test("Validate that invalid list items are reported with their positions", async (c) => {
+  c.plan(2);
+  const { validatedInput, events } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--tags", "a,b,c", "--ports", "80,http", "--no-interactive"],
+    inputValidator: spec.createInputValidator(inputSpec),
+  });
+  c.true(E.isLeft(validatedInput));
+  c.deepEqual(
+    events.flatMap((event) =>
+      event.kind === "valueInvalid"
+        ? [[event.propertyName, event.errorMessage.split("\n")[0]]]
+        : [],
+    ),
+    [
+      ["tags", "Expected at most 2 items, but got 3."],
+      ["ports", "Item 2: error(s) found"],
+    ],
+  );
+});
+
+test("Validate that equivalent command repeats the flags of list items", (c) => {
+  c.plan(1);
+  c.is(
+    spec.getEquivalentCommand("my-tool", inputSpec, {
+      tags: ["web", "api"],
+      ports: [80],
+    }),
+    "my-tool --tags web --tags api --ports 80 --no-interactive",
+  );
+});
+
+test("Validate that list items containing commas survive equivalent command and answers file", async (c) => {
+  c.plan(4);
+  const tags = ["a, b", "c"];
+  c.is(
+    spec.getEquivalentCommand("my-tool", inputSpec, { tags, ports: [80] }),
+    "my-tool --tags 'a\\, b' --tags c --ports 80 --no-interactive",
+  );
+  const { validatedInput: fromCLI } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--tags", "a\\, b", "--tags", "c", "--ports", "80"],
+    inputValidator: spec.createInputValidator(inputSpec),
+  });
+  c.deepEqual(fromCLI, E.right({ tags, ports: [80] }));
+  const fromAnswers = await spec.collectInput(inputSpec)({
+    cliArgs: { flags: { tags: undefined, ports: undefined }, input: [] },
+    answers: { filePath: "answers.json", values: { tags, ports: [80] } },
+    inputValidator: spec.createInputValidator(inputSpec),
+    getDynamicValueInput: () => undefined,
+    printer: spec.silentPrinter,
+    isInteractive: false,
+    env: {},
+  });
+  c.deepEqual(fromAnswers, { tags, ports: [80] });
+  // The single string from answers file is single item
+  const fromSingleString = await spec.collectInput(inputSpec)({
+    cliArgs: { flags: { tags: undefined, ports: undefined }, input: [] },
+    answers: { filePath: "answers.json", values: { tags: "a,b", ports: [80] } },
+    inputValidator: spec.createInputValidator(inputSpec),
+    getDynamicValueInput: () => undefined,
+    printer: spec.silentPrinter,
+    isInteractive: false,
+    env: {},
+  });
+  c.deepEqual(fromSingleString, { tags: ["a,b"], ports: [80] });
+});
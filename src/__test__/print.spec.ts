@@ -0,0 +1,106 @@
+/**
+ * @file This file contains unit tests for file `../print.ts`.
+ */
+import test from "ava";
+import * as spec from "..";
+
+const infoEvent: spec.PrintEvent = {
+  kind: "message",
+  level: "info",
+  message: "Hello",
+};
+
+const warnEvent: spec.PrintEventValueInvalid = {
+  kind: "valueInvalid",
+  level: "warn",
+  propertyName: "count",
+  value: "abc",
+  origin: { type: "env", variableName: "MY_COUNT" },
+  errorMessage: "Expected number",
+};
+
+// The console and stderr are global, so the tests capturing them must be run serially
+const captureOutput = (print: () => void) => {
+  const output: Array<[string, string]> = [];
+  const { info, warn, error } = console;
+  const write = process.stderr.write;
+  Object.assign(console, {
+    info: (text: string) => output.push(["info", text]),
+    warn: (text: string) => output.push(["warn", text]),
+    error: (text: string) => output.push(["error", text]),
+  });
+  process.stderr.write = (text: string | Uint8Array) =>
+    output.push(["stderr", String(text)]) > 0;
+  try {
+    print();
+  } finally {
+    Object.assign(console, { info, warn, error });
+    process.stderr.write = write;
+  }
+  return output;
+};
+
+test.serial(
+  "Validate that console printer uses console method matching the level of the event",
+  (c) => {
+    c.plan(1);
+    const printer = spec.createConsolePrinter();
+    c.deepEqual(
+      captureOutput(() => {
+        printer(infoEvent);
+        printer(warnEvent);
+      }),
+      [
+        ["info", spec.getDefaultText(infoEvent)],
+        ["warn", spec.getDefaultText(warnEvent)],
+      ],
+    );
+  },
+);
+
+test.serial(
+  "Validate that console printer routes all events to stderr and uses custom text",
+  (c) => {
+    c.plan(1);
+    const printer = spec.createConsolePrinter({
+      useStdErr: true,
+      getText: (event) =>
+        event.kind === "message" ? event.message : undefined,
+    });
+    c.deepEqual(
+      captureOutput(() => {
+        printer(infoEvent);
+        printer(warnEvent);
+      }),
+      [["stderr", "Hello\n"]],
+    );
+  },
+);
+
+test.serial("Validate that silent printer prints nothing", (c) => {
+  c.plan(1);
+  c.deepEqual(
+    captureOutput(() => {
+      spec.silentPrinter(infoEvent);
+      spec.silentPrinter(warnEvent);
+    }),
+    [],
+  );
+});
+
+test("Validate that JSON lines printer serializes each event as one line, including bigint values", (c) => {
+  c.plan(2);
+  const lines: Array<string> = [];
+  const printer = spec.createJSONLinesPrinter((line) => lines.push(line));
+  printer(infoEvent);
+  printer({ ...warnEvent, value: 12345678901234567890n });
+  c.true(
+    lines.every(
+      (line) => line.endsWith("\n") && !line.slice(0, -1).includes("\n"),
+    ),
+  );
+  c.deepEqual(
+    lines.map((line) => JSON.parse(line) as unknown),
+    [infoEvent, { ...warnEvent, value: "12345678901234567890" }],
+  );
+});
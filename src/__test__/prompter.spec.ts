@@ -0,0 +1,167 @@
+/**
+ * @file This file contains unit tests for file `../prompter.ts`.
+ */
+import test from "ava";
+import * as S from "@effect/schema/Schema";
+import * as spec from "..";
+import * as prompter from "../prompter";
+
+const isString = (answer: unknown) =>
+  typeof answer === "string" && answer.length > 0 ? true : "Not a string";
+
+test("Validate that prompt request is created from inquirer question", (c) => {
+  c.plan(2);
+  const request = prompter.createPromptRequest(
+    "packageManager",
+    {
+      type: "list",
+      message: "Package manager",
+      choices: ["yarn", { name: "NPM", value: "npm" }, { type: "separator" }],
+      default: "yarn",
+    },
+    isString,
+  );
+  c.like(request, {
+    propertyName: "packageManager",
+    type: "select",
+    message: "Package manager",
+    default: "yarn",
+    choices: [
+      { name: "yarn", value: "yarn" },
+      { name: "NPM", value: "npm" },
+    ],
+    secret: false,
+  });
+  c.true(
+    prompter.createPromptRequest(
+      "password",
+      { type: "password", message: "Password" },
+      isString,
+    ).secret,
+  );
+});
+
+test("Validate that scripted prompter answers from queue, without skipping invalid answers", async (c) => {
+  c.plan(4);
+  const prompt = spec.createScriptedPrompter([123, "first", "second"]);
+  const request = prompter.createPromptRequest(
+    "value",
+    { type: "input", message: "Value" },
+    isString,
+  );
+  c.is(await prompt(request), 123);
+  c.is(await prompt(request), "first");
+  c.is(await prompt(request), "second");
+  await c.throwsAsync(prompt(request), {
+    message: 'No scripted answer left for property "value".',
+  });
+});
+
+test("Validate that @inquirer/prompts adapter uses correct prompts", async (c) => {
+  c.plan(2);
+  const calls: Array<string> = [];
+  const prompt = spec.createInquirerPromptsPrompter({
+    input: ({ validate }) => (
+      calls.push(`input:${String(validate?.("42"))}`), Promise.resolve("42")
+    ),
+    password: () => (calls.push("password"), Promise.resolve("secret")),
+    confirm: () => (calls.push("confirm"), Promise.resolve(true)),
+    select: ({ choices }) => (
+      calls.push("select"), Promise.resolve(choices[0]?.value)
+    ),
+    checkbox: () => (calls.push("checkbox"), Promise.resolve([])),
+  });
+  const answers = [
+    await prompt(
+      prompter.createPromptRequest(
+        "number",
+        { type: "number", message: "Number" },
+        (answer) => answer === 42 || "Not 42",
+      ),
+    ),
+    await prompt(
+      prompter.createPromptRequest(
+        "password",
+        { type: "password", message: "Password" },
+        isString,
+      ),
+    ),
+    await prompt(
+      prompter.createPromptRequest(
+        "choice",
+        { type: "list", message: "Choice", choices: ["a", "b"] },
+        isString,
+      ),
+    ),
+  ];
+  c.deepEqual(answers, [42, "secret", "a"]);
+  c.deepEqual(calls, ["input:true", "password", "select"]);
+});
+
+test("Validate that @inquirer/prompts adapter rejects blank and non-numeric answers to number prompts", async (c) => {
+  c.plan(1);
+  const results: Array<boolean | string | undefined> = [];
+  const prompt = spec.createInquirerPromptsPrompter({
+    input: ({ validate }) => (
+      results.push(...["", "  ", "abc", "0"].map((value) => validate?.(value))),
+      Promise.resolve("0")
+    ),
+    password: () => Promise.resolve(""),
+    confirm: () => Promise.resolve(true),
+    select: () => Promise.resolve(undefined),
+    checkbox: () => Promise.resolve([]),
+  });
+  await prompt(
+    prompter.createPromptRequest(
+      "number",
+      { type: "number", message: "Number" },
+      (answer) => typeof answer === "number" || "Not a number",
+    ),
+  );
+  const notANumber = "Please enter a number.";
+  c.deepEqual(results, [notANumber, notANumber, notANumber, true]);
+});
+
+test("Validate that collectInput prompts missing values via given prompter, prompting again after invalid answers", async (c) => {
+  c.plan(3);
+  const inputSpec = {
+    name: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 0,
+      schema: S.string,
+    },
+    count: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 1,
+      schema: S.number,
+      flag: true,
+    },
+  } as const satisfies spec.InputSpec;
+  const input = await spec.collectInput(inputSpec)({
+    cliArgs: { flags: { count: undefined }, input: [] },
+    inputValidator: (input) => Promise.resolve(input),
+    getDynamicValueInput: () => undefined,
+    prompter: spec.createScriptedPrompter(["value", "not-a-number", 5]),
+    printer: spec.silentPrinter,
+    env: {},
+  });
+  c.deepEqual(input, { name: "value", count: 5 });
+  // The invalid answer counts as attempt
+  const error = await c.throwsAsync(
+    spec.collectInput(inputSpec)({
+      cliArgs: { flags: { count: undefined }, input: [] },
+      inputValidator: (input) => Promise.resolve(input),
+      getDynamicValueInput: () => undefined,
+      prompter: spec.createScriptedPrompter(["value", "not-a-number", 5]),
+      printer: spec.silentPrinter,
+      env: {},
+      maxAttemptsPerProperty: 1,
+    }),
+    { instanceOf: spec.InputCollectionStoppedError },
+  );
+  c.deepEqual(error?.reason, {
+    kind: "propertyAttemptsExceeded",
+    propertyName: "count",
+    maxAttempts: 1,
+  });
+});
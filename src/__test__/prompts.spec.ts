@@ -0,0 +1,144 @@
+/**
+ * @file This file contains unit tests for file `../prompts.ts`.
+ */
+import test from "ava";
+import * as S from "@effect/schema/Schema";
+import * as F from "@effect/data/Function";
+import * as O from "@effect/data/Option";
+import * as spec from "..";
+import * as prompts from "../prompts";
+import { createValidationSpec } from "./validation-spec";
+
+test("Validate that prompt type is deduced from schema", (c) => {
+  c.plan(5);
+  c.deepEqual(prompts.getPrompt("value", createValidationSpec(S.string)), {
+    type: "input",
+    message: "value",
+  });
+  c.deepEqual(prompts.getPrompt("value", createValidationSpec(S.boolean)), {
+    type: "confirm",
+    message: "value",
+  });
+  c.deepEqual(prompts.getPrompt("value", createValidationSpec(S.number)), {
+    type: "number",
+    message: "value",
+  });
+  c.deepEqual(
+    prompts.getPrompt(
+      "value",
+      createValidationSpec(S.keyof(S.struct({ yarn: S.any, npm: S.any }))),
+    ),
+    {
+      type: "list",
+      message: "value",
+      choices: [
+        { name: "yarn", value: "yarn" },
+        { name: "npm", value: "npm" },
+      ],
+    },
+  );
+  c.deepEqual(
+    prompts.getPrompt(
+      "value",
+      createValidationSpec(S.array(S.literal("a", "b"))),
+    ),
+    {
+      type: "checkbox",
+      message: "value",
+      choices: [
+        { name: "a", value: "a" },
+        { name: "b", value: "b" },
+      ],
+    },
+  );
+});
+
+test("Validate that prompt message is taken from schema annotations", (c) => {
+  c.plan(3);
+  c.deepEqual(
+    prompts.getPrompt(
+      "value",
+      createValidationSpec(
+        F.pipe(S.string, S.nonEmpty({ title: "Where to create project?" })),
+      ),
+    ).message,
+    "Where to create project?",
+  );
+  c.deepEqual(
+    prompts.getPrompt(
+      "value",
+      createValidationSpec(
+        F.pipe(S.string, S.description("Name of the project")),
+      ),
+    ).message,
+    "Name of the project",
+  );
+  c.deepEqual(
+    prompts.getPrompt(
+      "value",
+      createValidationSpec(F.pipe(S.string, S.nonEmpty())),
+    ).message,
+    "value",
+  );
+});
+
+test("Validate that explicit prompt properties override deduced ones", (c) => {
+  c.plan(1);
+  c.deepEqual(
+    prompts.getPrompt(
+      "value",
+      createValidationSpec(S.literal("yarn", "npm"), {
+        prompt: {
+          message: "Which package manager?",
+          default: "yarn",
+        },
+      }),
+    ),
+    {
+      type: "list",
+      message: "Which package manager?",
+      default: "yarn",
+      choices: [
+        { name: "yarn", value: "yarn" },
+        { name: "npm", value: "npm" },
+      ],
+    },
+  );
+});
+
+test("Validate that dynamic prompt properties are resolved from dynamic value input", async (c) => {
+  c.plan(4);
+  const stage: spec.ValidationSpec<ReadonlyArray<string>> = {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 0,
+    schema: S.string,
+    prompt: (packages) =>
+      Promise.resolve({
+        type: "list",
+        choices: packages,
+        default: packages[0],
+      }),
+  };
+  c.deepEqual(prompts.getPrompt("value", stage), {
+    type: "input",
+    message: "value",
+  });
+  c.deepEqual(
+    await prompts.resolvePrompt("value", stage, O.some(["first", "second"])),
+    {
+      type: "list",
+      message: "value",
+      choices: ["first", "second"],
+      default: "first",
+    },
+  );
+  c.deepEqual(
+    await prompts.resolvePrompt(
+      "value",
+      createValidationSpec(S.string, { prompt: { message: "Static" } }),
+      O.none(),
+    ),
+    { type: "input", message: "Static" },
+  );
+  await c.throwsAsync(prompts.resolvePrompt("value", stage, O.none()));
+});
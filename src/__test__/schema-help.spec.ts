@@ -0,0 +1,92 @@
+/**
+ * @file This file contains unit tests for file `../schema-help.ts`.
+ */
+import test from "ava";
+import * as S from "@effect/schema/Schema";
+import * as F from "@effect/data/Function";
+import * as spec from "..";
+
+test("Validate that keywords, literals, and unions are rendered", (c) => {
+  c.plan(4);
+  c.deepEqual(spec.schemaToHelpText(S.string.ast), "string");
+  c.deepEqual(spec.schemaToHelpText(S.boolean.ast), "boolean");
+  c.deepEqual(
+    spec.schemaToHelpText(S.literal("yarn", "npm", 1).ast),
+    '"yarn"|"npm"|1',
+  );
+  c.deepEqual(
+    spec.schemaToHelpText(S.union(S.string, S.undefined).ast),
+    "string (optional)",
+  );
+});
+
+test("Validate that refinements are rendered along with their annotations", (c) => {
+  c.plan(3);
+  c.deepEqual(
+    spec.schemaToHelpText(F.pipe(S.string, S.nonEmpty()).ast),
+    "string (a string at least 1 character(s) long)",
+  );
+  c.deepEqual(
+    spec.schemaToHelpText(
+      F.pipe(S.string, S.nonEmpty({ title: "Folder as non-empty string." }))
+        .ast,
+    ),
+    "string (Folder as non-empty string.)",
+  );
+  c.deepEqual(
+    spec.schemaToHelpText(
+      F.pipe(S.number, S.int({ title: "Port", examples: [3000] })).ast,
+    ),
+    "number (Port; e.g. 3000)",
+  );
+});
+
+test("Validate that transformations are rendered using their from side", (c) => {
+  c.plan(2);
+  c.deepEqual(spec.schemaToHelpText(S.NumberFromString.ast), "string");
+  c.deepEqual(
+    spec.schemaToHelpText(
+      F.pipe(
+        S.string,
+        S.transform(
+          S.string,
+          (str) => str.trim(),
+          (str) => str,
+        ),
+      ).ast,
+    ),
+    "string",
+  );
+});
+
+test("Validate that structural schemas are rendered", (c) => {
+  c.plan(5);
+  c.deepEqual(spec.schemaToHelpText(S.array(S.string).ast), "Array<string>");
+  c.deepEqual(
+    spec.schemaToHelpText(
+      F.pipe(S.tuple(S.string), S.optionalElement(S.number)).ast,
+    ),
+    "[string, number?]",
+  );
+  c.deepEqual(
+    spec.schemaToHelpText(
+      S.struct({ name: S.string, age: S.optional(S.number) }).ast,
+    ),
+    "{ name: string; age?: number }",
+  );
+  c.deepEqual(
+    spec.schemaToHelpText(S.templateLiteral(S.literal("v"), S.number).ast),
+    "`v${number}`",
+  );
+  enum Fruit {
+    Apple = "apple",
+    Banana = 1,
+  }
+  c.deepEqual(spec.schemaToHelpText(S.enums(Fruit).ast), '"apple"|1');
+});
+
+test("Validate that unrecognized schemas fall back to their annotations", (c) => {
+  c.plan(2);
+  c.deepEqual(spec.schemaToHelpText(S.DateFromSelf.ast), "Date");
+  c.deepEqual(spec.schemaToHelpText(S.lazy(() => S.string).ast), "unknown");
+});
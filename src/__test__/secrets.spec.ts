@@ -0,0 +1,141 @@
+/**
+ * @file This file contains unit tests for file `../secrets.ts`.
+ */
+import test from "ava";
+import * as E from "@effect/data/Either";
+import * as S from "@effect/schema/Schema";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as spec from "..";
+import * as secrets from "../secrets";
+
+const inputSpec = {
+  user: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 0,
+    schema: S.string,
+    flag: true,
+  },
+  token: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 1,
+    schema: S.string.pipe(S.startsWith("tk_")),
+    flag: true,
+    env: "MY_TOKEN",
+    sensitive: true,
+  },
+} as const satisfies spec.InputSpec;
+
+test("Validate that sensitive value is redacted from printed messages", async (c) => {
+  c.plan(4);
+  const { validatedInput, events, messages } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--user", "me", "--token", "tk_secret"],
+    inputValidator: spec.createInputValidator(inputSpec),
+  });
+  c.deepEqual(validatedInput, E.right({ user: "me", token: "tk_secret" }));
+  c.deepEqual(
+    events.flatMap((event) =>
+      event.kind === "valueUsed" ? [[event.propertyName, event.value]] : [],
+    ),
+    [
+      ["user", "me"],
+      ["token", spec.REDACTED],
+    ],
+  );
+  c.false(messages.some((message) => message.includes("tk_secret")));
+  c.true(messages.some((message) => message.includes(spec.REDACTED)));
+});
+
+test("Validate that invalid sensitive value is redacted from errors of non-interactive mode", async (c) => {
+  c.plan(3);
+  const { validatedInput, messages } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--user", "me", "--no-interactive"],
+    env: { MY_TOKEN: "not-a-token" },
+    inputValidator: spec.createInputValidator(inputSpec),
+  });
+  c.true(
+    E.isLeft(validatedInput) &&
+      validatedInput.left instanceof spec.NonInteractiveInputError,
+  );
+  c.false(
+    [...messages, String(E.isLeft(validatedInput) && validatedInput.left)].some(
+      (message) => message.includes("not-a-token"),
+    ),
+  );
+  c.true(messages.some((message) => message.includes(spec.REDACTED)));
+});
+
+test("Validate that sensitive value is prompted with password prompt and excluded from equivalent command", async (c) => {
+  c.plan(3);
+  const { validatedInput, prompts } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--user", "me"],
+    answers: ["tk_secret"],
+    inputValidator: spec.createInputValidator(inputSpec),
+  });
+  c.deepEqual(validatedInput, E.right({ user: "me", token: "tk_secret" }));
+  c.deepEqual(
+    prompts.map(({ propertyName, secret }) => [propertyName, secret]),
+    [["token", true]],
+  );
+  c.is(
+    spec.getEquivalentCommand("my-tool", inputSpec, {
+      user: "me",
+      token: "tk_secret",
+    }),
+    "my-tool --user me --no-interactive",
+  );
+});
+
+test("Validate that sensitive value is read from file given via file flag", async (c) => {
+  c.plan(3);
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "meow-inquirer-"));
+  try {
+    const filePath = path.join(dir, "token.txt");
+    await fs.writeFile(filePath, "tk_secret\n", "utf8");
+    const { validatedInput, events, prompts } = await spec.testCLI({
+      importMeta: import.meta,
+      inputSpec,
+      argv: ["--user", "me", "--token-file", filePath],
+      inputValidator: spec.createInputValidator(inputSpec),
+    });
+    c.deepEqual(validatedInput, E.right({ user: "me", token: "tk_secret" }));
+    c.deepEqual(
+      events.flatMap((event) =>
+        event.kind === "valueUsed" && event.propertyName === "token"
+          ? [event.origin]
+          : [],
+      ),
+      [{ type: "file", filePath }],
+    );
+    c.deepEqual(prompts, []);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("Validate that error messages are not shredded by short sensitive values", (c) => {
+  c.plan(4);
+  const stage = inputSpec.token;
+  const message = 'Expected string starting with "tk_", actual "z"';
+  c.is(
+    secrets.redactMessage(stage, message, "z"),
+    `Expected string starting with "tk_", actual ${spec.REDACTED}`,
+  );
+  // Unquoted occurrences can not be told apart from other text
+  c.is(
+    secrets.redactMessage(stage, 'Expected "tk_", actual "e"', "e"),
+    spec.REDACTED,
+  );
+  c.is(
+    secrets.redactMessage(stage, "Token tk_secret has expired", "tk_secret"),
+    spec.REDACTED,
+  );
+  c.is(secrets.redactMessage(inputSpec.user, message, "z"), message);
+});
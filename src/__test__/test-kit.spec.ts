@@ -0,0 +1,239 @@
+/**
+ * @file This file contains unit tests for file `../test-kit.ts`.
+ */
+import test from "ava";
+import * as E from "@effect/data/Either";
+import * as S from "@effect/schema/Schema";
+import * as spec from "..";
+
+const inputSpec = {
+  greeting: {
+    type: spec.TYPE_MESSAGE,
+    orderNumber: 0,
+    message: "Hello!",
+  },
+  packageManager: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 1,
+    schema: S.literal("yarn", "npm"),
+    flag: "p",
+  },
+  folderName: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 2,
+    schema: S.string,
+    prompt: { message: "Folder" },
+  },
+  count: {
+    type: spec.TYPE_VALIDATE,
+    orderNumber: 3,
+    schema: S.number,
+    flag: true,
+    env: "COUNT",
+  },
+} as const satisfies spec.InputSpec;
+
+test("Validate that test kit collects input from CLI arguments, environment, and scripted answers", async (c) => {
+  c.plan(4);
+  const { validatedInput, messages, prompts } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["-p", "yarn"],
+    env: { COUNT: "3" },
+    answers: ["my-project"],
+    inputValidator: (input) => Promise.resolve(input),
+  });
+  c.deepEqual(
+    validatedInput,
+    E.right({ packageManager: "yarn", folderName: "my-project", count: 3 }),
+  );
+  c.is(messages[0], "Hello!");
+  c.deepEqual(
+    prompts.map(({ propertyName, message }) => [propertyName, message]),
+    [["folderName", "Folder"]],
+  );
+  c.not(prompts[0]?.validate(123), true);
+});
+
+test("Validate that test kit reports failures of non-interactive mode", async (c) => {
+  c.plan(3);
+  const { validatedInput, events, prompts } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--no-interactive", "--package-manager", "pnpm"],
+    inputValidator: (input) => Promise.resolve(input),
+  });
+  c.true(
+    E.isLeft(validatedInput) &&
+      validatedInput.left instanceof spec.NonInteractiveInputError,
+  );
+  c.deepEqual(
+    events.map(({ kind }) => kind),
+    ["message", "valueInvalid", "nonInteractiveReport"],
+  );
+  c.deepEqual(prompts, []);
+});
+
+test("Validate that dynamic prompts are computed from earlier answers", async (c) => {
+  c.plan(2);
+  const folderName = "my-folder";
+  const { validatedInput, prompts } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec: {
+      folderName: {
+        type: spec.TYPE_VALIDATE,
+        orderNumber: 0,
+        schema: S.string,
+      },
+      workspacePackage: {
+        type: spec.TYPE_VALIDATE,
+        orderNumber: 1,
+        schema: S.string,
+        flag: true,
+        prompt: (packages) => ({ type: "list", choices: packages }),
+      },
+    } as const satisfies spec.InputSpec<ReadonlyArray<string>>,
+    answers: [folderName, `${folderName}/b`],
+    inputValidator: (input) => Promise.resolve(input),
+    getDynamicValueInput: ({ folderName }) =>
+      folderName === undefined
+        ? undefined
+        : [`${folderName}/a`, `${folderName}/b`],
+  });
+  c.deepEqual(
+    validatedInput,
+    E.right({ folderName, workspacePackage: `${folderName}/b` }),
+  );
+  c.deepEqual(prompts[1]?.choices, [
+    { name: `${folderName}/a`, value: `${folderName}/a` },
+    { name: `${folderName}/b`, value: `${folderName}/b` },
+  ]);
+});
+
+test("Validate that back answer returns to previous prompt and clears dependent values", async (c) => {
+  c.plan(3);
+  const BACK = "<back>";
+  const backSpec = {
+    kind: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 0,
+      schema: S.literal("app", "lib"),
+    },
+    port: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 1,
+      schema: S.string,
+      flag: true,
+      condition: {
+        description: "only for apps",
+        isApplicable: ({ kind }: { kind?: string }) => kind === "app",
+      },
+    },
+    name: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 2,
+      schema: S.string,
+      flag: true,
+    },
+  } as const satisfies spec.InputSpec<{ kind?: string }>;
+  const { validatedInput, prompts, events } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec: backSpec,
+    answers: [BACK, "app", "8080", BACK, BACK, "lib", "my-lib"],
+    backAnswer: BACK,
+    getDynamicValueInput: (values) => values,
+    inputValidator: (input) => Promise.resolve(input),
+  });
+  c.deepEqual(validatedInput, E.right({ kind: "lib", name: "my-lib" }));
+  c.deepEqual(
+    prompts.map(({ propertyName }) => propertyName),
+    ["kind", "kind", "port", "name", "port", "kind", "name"],
+  );
+  c.true(events.some(({ kind }) => kind === "backUnavailable"));
+});
+
+test("Validate that test kit does not exit the process on help and version flags", async (c) => {
+  c.plan(1);
+  const { validatedInput } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--help", "--version", "-p", "npm", "--count", "1"],
+    answers: ["my-app"],
+    inputValidator: (input) => Promise.resolve(input),
+  });
+  c.deepEqual(
+    validatedInput,
+    E.right({ packageManager: "npm", folderName: "my-app", count: 1 }),
+  );
+});
+
+test("Validate that test kit forwards attempt limits and cancellation signal", async (c) => {
+  c.plan(2);
+  const { validatedInput: exceeded } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["-p", "npm", "--count", "1"],
+    answers: ["a", "b", "c"],
+    maxAttempts: 2,
+    inputValidator: () => Promise.resolve([["folderName", "Never valid."]]),
+  });
+  c.deepEqual(
+    E.isLeft(exceeded) &&
+      exceeded.left instanceof spec.InputCollectionStoppedError &&
+      exceeded.left.reason,
+    { kind: "attemptsExceeded", maxAttempts: 2 },
+  );
+  const controller = new AbortController();
+  controller.abort();
+  const { validatedInput: cancelled } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["-p", "npm", "--count", "1"],
+    answers: ["a"],
+    signal: controller.signal,
+    inputValidator: (input) => Promise.resolve(input),
+  });
+  c.true(
+    E.isLeft(cancelled) &&
+      cancelled.left instanceof spec.InputCollectionStoppedError &&
+      cancelled.left.reason.kind === "cancelled",
+  );
+});
+
+test("Validate that test kit detects non-interactive mode from given environment and CLI arguments", async (c) => {
+  c.plan(3);
+  const { prompts: promptsInCI } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["-p", "npm", "--count", "1"],
+    env: { CI: "true" },
+    answers: ["my-app"],
+    inputValidator: (input) => Promise.resolve(input),
+  });
+  c.deepEqual(promptsInCI, []);
+  const { prompts: promptsWithFlag } = await spec.testCLI({
+    importMeta: import.meta,
+    inputSpec,
+    argv: ["--interactive=false", "-p", "npm", "--count", "1"],
+    answers: ["my-app"],
+    inputValidator: (input) => Promise.resolve(input),
+  });
+  c.deepEqual(promptsWithFlag, []);
+  const { result } = await spec.testCommands({
+    importMeta: import.meta,
+    commands: {
+      init: spec.defineCommand({
+        description: "Initialize new project",
+        inputSpec: { dir: inputSpec.folderName },
+        getDynamicValueInput: () => undefined,
+        inputValidator: ({ dir }) => Promise.resolve(dir),
+      }),
+    },
+    argv: ["init"],
+    env: { CI: "1" },
+    answers: ["my-dir"],
+  });
+  c.true(
+    E.isLeft(result) && result.left instanceof spec.NonInteractiveInputError,
+  );
+});
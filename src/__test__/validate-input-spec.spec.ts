@@ -0,0 +1,162 @@
+/**
+ * @file This file contains unit tests for file `../validate-input-spec.ts`.
+ */
+import test from "ava";
+import * as S from "@effect/schema/Schema";
+import * as spec from "..";
+import { createValidationSpec } from "./validation-spec";
+
+test("Validate that valid input specification produces no diagnostics", (c) => {
+  c.plan(1);
+  c.deepEqual(
+    spec.validateInputSpec({
+      first: createValidationSpec(S.string, { flag: "f" }),
+      second: createValidationSpec(S.number, {
+        orderNumber: 1,
+        flag: { type: "number", aliases: ["s"] },
+      }),
+      third: createValidationSpec(S.string, { orderNumber: 2 }),
+    }),
+    [],
+  );
+});
+
+test("Validate that duplicate flags, order numbers, and positions are detected", (c) => {
+  c.plan(1);
+  c.deepEqual(
+    spec.validateInputSpec({
+      first: createValidationSpec(S.string, { flag: "f" }),
+      second: createValidationSpec(S.string, {
+        flag: { type: "string", shortFlag: "f" },
+      }),
+      thirdValue: createValidationSpec(S.string, {
+        orderNumber: 1,
+        flag: { type: "string", aliases: ["firstValue"] },
+      }),
+      firstValue: createValidationSpec(S.string, {
+        orderNumber: 2,
+        flag: true,
+      }),
+      fourth: createValidationSpec(S.string, { orderNumber: 3 }),
+      fifth: createValidationSpec(S.string, { orderNumber: 4 }),
+    }),
+    [
+      {
+        kind: "duplicateShortFlag",
+        value: "f",
+        propertyNames: ["first", "second"],
+      },
+      {
+        kind: "duplicateFlagName",
+        value: "first-value",
+        propertyNames: ["thirdValue", "firstValue"],
+      },
+      {
+        kind: "duplicateOrderNumber",
+        value: 0,
+        propertyNames: ["first", "second"],
+      },
+      {
+        kind: "duplicatePosition",
+        value: 0,
+        propertyNames: ["fourth", "fifth"],
+      },
+    ],
+  );
+});
+
+test("Validate that properties of groups colliding with other properties are detected", (c) => {
+  c.plan(2);
+  const diagnostics = spec.validateInputSpec({
+    dbHost: createValidationSpec(S.string, { flag: true }),
+    db: {
+      type: spec.TYPE_GROUP,
+      orderNumber: 1,
+      message: "Database",
+      properties: {
+        host: createValidationSpec(S.string, { flag: true }),
+        port: createValidationSpec(S.number, { orderNumber: 1, flag: true }),
+      },
+    },
+  });
+  c.deepEqual(diagnostics, [
+    {
+      kind: "duplicatePropertyName",
+      value: "dbHost",
+      propertyNames: ["dbHost", "db"],
+    },
+  ]);
+  c.true(
+    new spec.InvalidInputSpecError(diagnostics).message.includes(
+      'Property "dbHost" is produced by "dbHost", "db"',
+    ),
+  );
+});
+
+test("Validate that reserved and incompatible flags are detected", (c) => {
+  c.plan(2);
+  const diagnostics = spec.validateInputSpec(
+    {
+      help: createValidationSpec(S.string, { flag: true }),
+      value: createValidationSpec(S.string, {
+        orderNumber: 1,
+        flag: { type: "string", aliases: ["myFlag"] },
+      }),
+      count: createValidationSpec(S.number, {
+        orderNumber: 2,
+        flag: { type: "string" },
+      }),
+    },
+    { reservedFlags: ["myFlag"] },
+  );
+  c.deepEqual(diagnostics, [
+    { kind: "reservedFlag", propertyName: "help", flagName: "help" },
+    { kind: "reservedFlag", propertyName: "value", flagName: "my-flag" },
+    {
+      kind: "incompatibleFlag",
+      propertyName: "count",
+      errorMessage:
+        'The flag of property "count" is string, but its schema expects number.',
+    },
+  ]);
+  c.is(
+    spec.getInputSpecReport(diagnostics),
+    `The input specification is invalid:
+  - Flag "--help" of "help" is reserved.
+  - Flag "--my-flag" of "value" is reserved.
+  - The flag of property "count" is string, but its schema expects number.`,
+  );
+});
+
+test("Validate that properties needing unavailable dynamic value input are detected", (c) => {
+  c.plan(2);
+  const condition = {
+    description: "When applicable",
+    isApplicable: () => true,
+  };
+  const inputSpec: spec.InputSpecBase = {
+    message: {
+      type: spec.TYPE_MESSAGE,
+      orderNumber: 0,
+      message: () => "Message",
+    },
+    first: { ...createValidationSpec(S.string, { orderNumber: 1 }), condition },
+    second: {
+      ...createValidationSpec(S.string, { orderNumber: 2, flag: true }),
+      condition,
+    },
+  };
+  c.deepEqual(
+    spec.validateInputSpec(inputSpec, {
+      getDynamicValueInput: () => undefined,
+    }),
+    [
+      { kind: "missingDynamicValue", propertyName: "message" },
+      { kind: "missingDynamicValue", propertyName: "first" },
+    ],
+  );
+  c.deepEqual(
+    spec.validateInputSpec(inputSpec, { getDynamicValueInput: () => ({}) }),
+    [],
+  );
+});
@@ -0,0 +1,32 @@
+/**
+ * @file This file contains fixtures shared by unit tests, which are not tests themselves.
+ */
+import * as spec from "..";
+import omitUndefined from "../omit-undefined";
+
+/**
+ * Creates the {@link spec.ValidationSpecBase} with given schema, and optional other properties.
+ * @param schema The schema of the value.
+ * @param properties The optional properties of the specification, with order number `0` by default.
+ * @param properties.orderNumber Privately deconstructed property.
+ * @param properties.flag Privately deconstructed property.
+ * @param properties.prompt Privately deconstructed property.
+ * @returns The {@link spec.ValidationSpecBase} for tests.
+ */
+export const createValidationSpec = (
+  schema: spec.SchemaBase,
+  {
+    orderNumber = 0,
+    flag,
+    prompt,
+  }: {
+    orderNumber?: number;
+    flag?: spec.ValidationSpecBase["flag"];
+    prompt?: spec.ValidationSpecBase["prompt"];
+  } = {},
+): spec.ValidationSpecBase => ({
+  type: spec.TYPE_VALIDATE,
+  orderNumber,
+  schema,
+  ...omitUndefined({ flag, prompt }),
+});
@@ -0,0 +1,96 @@
+/**
+ * @file This file contains unit tests for file `../validator-adapter.ts`.
+ */
+import test from "ava";
+import * as E from "@effect/data/Either";
+import * as S from "@effect/schema/Schema";
+import * as spec from "..";
+import * as validator from "../validator-adapter";
+
+// Minimal validation library: the schema is a type guard along with its name
+interface PredicateSchema<T> {
+  name: string;
+  is: (value: unknown) => value is T;
+}
+
+interface PredicateTypes extends spec.SchemaTypes {
+  readonly From: this["Schema"] extends PredicateSchema<infer T> ? T : never;
+  readonly To: this["Schema"] extends PredicateSchema<infer T> ? T : never;
+}
+
+const predicateAdapter: spec.ValidatorAdapter<
+  PredicateSchema<unknown>,
+  string,
+  PredicateTypes
+> = {
+  decode: ({ name, is }, value) =>
+    is(value) ? E.right(value) : E.left(`Expected ${name}`),
+  encode: (_, value) => E.right(value),
+  formatError: (error) => `Error: ${error}`,
+  describe: ({ name }) => name,
+};
+
+// The types of the adapted schema are deduced from the type guard
+const evenNumber = spec.adaptSchema(predicateAdapter, {
+  name: "even number",
+  is: (value: unknown): value is number =>
+    typeof value === "number" && value % 2 === 0,
+});
+
+test("Validate that adapted schemas are validated and described using their adapter", (c) => {
+  c.plan(5);
+  c.deepEqual(validator.decode(evenNumber, 2), E.right(2));
+  c.deepEqual(
+    validator.decode(evenNumber, 3),
+    E.left("Error: Expected even number"),
+  );
+  c.deepEqual(validator.encode(evenNumber, 4), E.right(4));
+  c.is(validator.describe(evenNumber), "even number");
+  c.is(validator.describe(S.literal("yarn", "npm")), '"yarn"|"npm"');
+});
+
+test("Validate that input specification can mix adapted and @effect/schema schemas", async (c) => {
+  c.plan(3);
+  const inputSpec = {
+    count: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 0,
+      schema: evenNumber,
+      flag: { type: "number" },
+    },
+    name: {
+      type: spec.TYPE_VALIDATE,
+      orderNumber: 1,
+      schema: S.string,
+    },
+  } as const satisfies spec.InputSpec;
+  const input = await spec.collectInput(inputSpec)({
+    cliArgs: { flags: { count: 4 }, input: ["value"] },
+    inputValidator: ({ count, name }) =>
+      // The types are deduced from both kinds of schemas
+      Promise.resolve({ count: (count ?? 0) + 1, name: name?.toUpperCase() }),
+    getDynamicValueInput: () => undefined,
+    printer: spec.silentPrinter,
+    isInteractive: false,
+  });
+  c.deepEqual(input, { count: 5, name: "VALUE" });
+  const error = await c.throwsAsync(
+    spec.collectInput(inputSpec)({
+      cliArgs: { flags: { count: 3 }, input: ["value"] },
+      inputValidator: (input) => Promise.resolve(input),
+      getDynamicValueInput: () => undefined,
+      printer: spec.silentPrinter,
+      isInteractive: false,
+    }),
+    { instanceOf: spec.NonInteractiveInputError },
+  );
+  c.deepEqual(error?.issues, [
+    {
+      kind: "invalid",
+      propertyName: "count",
+      cliHint: "--count",
+      value: 3,
+      errorMessage: "Error: Expected even number",
+    },
+  ]);
+});
@@ -0,0 +1,85 @@
+/**
+ * @file This file contains code related to recording the collected input to an answers file, and replaying it later as a source of values.
+ */
+import * as fs from "node:fs/promises";
+import * as E from "@effect/data/Either";
+import * as inputSpec from "./input-spec";
+import * as lists from "./lists";
+import * as secrets from "./secrets";
+
+/**
+ * This interface represents the contents of the answers file, along with its path.
+ */
+export interface AnswersFile {
+  /**
+   * The absolute path of the answers file.
+   */
+  filePath: string;
+  /**
+   * The recorded values, keys being names of the properties of input specification, and values being encoded via the schema of the property.
+   */
+  values: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Reads the answers file previously written by {@link writeAnswersFile}.
+ * @param filePath The absolute path of the answers file.
+ * @returns Asynchronously returns {@link AnswersFile}.
+ * @throws If reading the file fails, or if its contents are not a JSON object.
+ */
+export const readAnswersFile = async (
+  filePath: string,
+): Promise<AnswersFile> => {
+  const values: unknown = JSON.parse(await fs.readFile(filePath, "utf8"));
+  if (typeof values !== "object" || values === null || Array.isArray(values)) {
+    throw new Error(`The answers file "${filePath}" must contain an object.`);
+  }
+  return { filePath, values: values as AnswersFile["values"] };
+};
+
+/**
+ * Writes the collected input to the answers file as JSON, so that it can be replayed later.
+ * @param filePath The path of the answers file.
+ * @param spec The input specification.
+ * @param input The collected input, see `InputFromCLIOrUser` type.
+ * @returns Asynchronously returns nothing.
+ * @throws If writing the file fails.
+ */
+export const writeAnswersFile = (
+  filePath: string,
+  spec: inputSpec.InputSpecBase,
+  input: Readonly<Record<string, unknown>>,
+) =>
+  fs.writeFile(
+    filePath,
+    `${JSON.stringify(encodeAnswers(spec, input), undefined, 2)}\n`,
+    "utf8",
+  );
+
+/**
+ * Encodes the collected input back through the schema of each property, e.g. turning `Date` objects back to strings.
+ * The properties which fail to encode are omitted, so that they will be prompted again when replaying.
+ * The sensitive properties are always omitted, so that their values are never written to disk or shown in equivalent command.
+ * @param spec The input specification.
+ * @param input The collected input, see `InputFromCLIOrUser` type.
+ * @returns The encoded values, suitable for serializing as JSON.
+ */
+export const encodeAnswers = (
+  spec: inputSpec.InputSpecBase,
+  input: Readonly<Record<string, unknown>>,
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(input).flatMap(([propertyName, value]) => {
+      const stage = spec[propertyName] as
+        | inputSpec.InputSpecProperty<unknown>
+        | undefined;
+      if (
+        stage?.type !== inputSpec.TYPE_VALIDATE ||
+        secrets.isSensitive(stage)
+      ) {
+        return [];
+      }
+      const encoded = lists.encode(stage, value);
+      return E.isRight(encoded) ? [[propertyName, encoded.right] as const] : [];
+    }),
+  );
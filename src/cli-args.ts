@@ -5,10 +5,19 @@ import meow, { type AnyFlag, type Result } from "meow";
 import * as readPkgUp from "read-pkg-up";
 import * as F from "@effect/data/Function";
 import * as O from "@effect/data/Option";
-import * as AST from "@effect/schema/AST";
 import * as url from "node:url";
 import * as path from "node:path";
-import type * as inputSpec from "./input-spec";
+import * as inputSpec from "./input-spec";
+import * as configFile from "./config-file";
+import * as answers from "./answers";
+import * as errors from "./errors";
+import validateInputSpec, {
+  type ValidateInputSpecOptions,
+} from "./validate-input-spec";
+import * as flags from "./flags";
+import * as groups from "./groups";
+import * as secrets from "./secrets";
+import getHelpText, * as helpText from "./help-text";
 
 /**
  * Generates help text from given input specification, and parses arguments using `meow` library.
@@ -16,17 +25,137 @@ import type * as inputSpec from "./input-spec";
  * @param root0 The {@link GetCLIArgsParameters} acting as input for this function.
  * @param root0.importMeta Deconstructed property.
  * @param root0.inputSpec Deconstructed property.
- * @returns The {@link CLIArgs} with parsed CLI argument information, along with the deduced package root.
- * @throws If resolving package root fails, or meow parsing throws.
+ * @param root0.envPrefix Deconstructed property.
+ * @param root0.configFile Deconstructed property.
+ * @param root0.argv Deconstructed property.
+ * @param root0.commandName Deconstructed property.
+ * @param root0.help Deconstructed property.
+ * @param root0.inputSpecValidation Deconstructed property.
+ * @param root0.autoHelp Deconstructed property.
+ * @param root0.autoVersion Deconstructed property.
+ * @param root0.env Deconstructed property.
+ * @returns The {@link CLIArgs} with parsed CLI argument information, along with the deduced package root, and contents of configuration and answers files, if any.
+ * @throws The {@link errors.InvalidInputSpecError} if input specification contains definition mistakes, or other error if resolving package root fails, meow parsing throws, or reading configuration or answers file fails.
  */
 export default async <TInputSpec extends inputSpec.InputSpecBase>({
   importMeta,
   inputSpec,
+  envPrefix,
+  configFile: configFileOptions,
+  argv,
+  commandName,
+  help,
+  inputSpecValidation,
+  autoHelp = true,
+  autoVersion = true,
+  env = process.env,
 }: GetCLIArgsParameters<TInputSpec>): Promise<CLIArgs<TInputSpec>> => {
+  // Catch definition mistakes of input specification early
+  if (inputSpecValidation !== false) {
+    const diagnostics = validateInputSpec(inputSpec, {
+      ...inputSpecValidation,
+      reservedFlags: [
+        FLAG_INTERACTIVE,
+        FLAG_CONFIG,
+        FLAG_ANSWERS,
+        FLAG_SAVE_ANSWERS,
+        ...(inputSpecValidation?.reservedFlags ?? []),
+      ],
+    });
+    if (diagnostics.length > 0) {
+      throw new errors.InvalidInputSpecError(diagnostics);
+    }
+  }
+
+  // Resolve package root
+  const { packageJson, path: packageRoot } = await readPackageJson(importMeta);
+
+  const invocation =
+    help?.invocation ??
+    `npx ${packageJson.name}@latest${
+      commandName === undefined ? "" : ` ${commandName}`
+    }`;
+
+  // The flag names are camel case, so they need to be kebab cased for command line
+  const saveAnswersFlagName = flags.getFlagName(FLAG_SAVE_ANSWERS);
+  // Parse CLI arguments and pass generated help text.
+  const parsedArgs = meow(
+    getHelpText({
+      inputSpec,
+      invocation,
+      envPrefix,
+      autoFlags: {
+        [`--no-${FLAG_INTERACTIVE}`]: `Never prompt values, and fail with report of missing and invalid values instead.
+          This is the default when CI environment variable is set.`,
+        [`--${FLAG_CONFIG} <path>`]:
+          "Read values from given configuration file, instead of discovering it from current directory.",
+        [`--${FLAG_ANSWERS} <file>`]: `Replay the answers recorded earlier with --${saveAnswersFlagName}, prompting only the missing and invalid values.`,
+        [`--${saveAnswersFlagName} <file>`]: `Record the collected values to given file, so that they can be replayed later with --${FLAG_ANSWERS}.`,
+      },
+      options: help,
+    }),
+    {
+      importMeta,
+      ...(argv === undefined ? {} : { argv }),
+      flags: {
+        ...getFlags(inputSpec),
+        // Auto-added flag to disable prompting, --no-interactive
+        [FLAG_INTERACTIVE]: { type: "boolean" },
+        // Auto-added flag to specify configuration file, --config <path>
+        [FLAG_CONFIG]: { type: "string" },
+        // Auto-added flags to replay and record answers, --answers <file> and --save-answers <file>
+        [FLAG_ANSWERS]: { type: "string" },
+        [FLAG_SAVE_ANSWERS]: { type: "string" },
+      },
+      booleanDefault: undefined,
+      autoVersion,
+      autoHelp,
+    },
+  );
+  const {
+    [FLAG_INTERACTIVE]: interactiveFlag,
+    [FLAG_CONFIG]: configFlag,
+    [FLAG_ANSWERS]: answersFlag,
+    [FLAG_SAVE_ANSWERS]: saveAnswersFlag,
+  }: Record<string, unknown> = parsedArgs.flags;
+  // Read configuration file, if specified or discovered
+  const config = await configFile.readConfigFile(
+    typeof configFlag === "string" ? configFlag : undefined,
+    configFileOptions?.cwd ?? process.cwd(),
+    configFileOptions?.fileNames ??
+      configFile.getDefaultConfigFileNames(packageJson.name),
+    configFileOptions?.parse,
+  );
+  // Read answers file, if specified
+  const answersFile =
+    typeof answersFlag === "string"
+      ? await answers.readAnswersFile(path.resolve(answersFlag))
+      : undefined;
+  // Return parse result along with package root
+  return {
+    cliArgs: parsedArgs,
+    packageRoot: path.dirname(packageRoot),
+    invocation,
+    isInteractive:
+      typeof interactiveFlag === "boolean" ? interactiveFlag : !isCI(env),
+    ...(config === undefined ? {} : { config }),
+    ...(answersFile === undefined ? {} : { answers: answersFile }),
+    ...(typeof saveAnswersFlag === "string"
+      ? { saveAnswers: path.resolve(saveAnswersFlag) }
+      : {}),
+  };
+};
+
+/**
+ * Reads the `package.json` file of the package containing the module with given {@link ImportMeta}.
+ * @param importMeta The {@link ImportMeta} of the module.
+ * @returns Asynchronously returns the contents of `package.json`, along with its path.
+ * @throws If reading `package.json` fails.
+ */
+export const readPackageJson = async (importMeta: ImportMeta) => {
   // From: https://blog.logrocket.com/alternatives-dirname-node-js-es-modules/
   const pkgUpCwd = url.fileURLToPath(new URL(".", importMeta.url));
-  // Resolve package root
-  const { packageJson, path: packageRoot } = F.pipe(
+  return F.pipe(
     await readPkgUp.readPackageUp({
       cwd: pkgUpCwd,
     }),
@@ -35,19 +164,32 @@ export default async <TInputSpec extends inputSpec.InputSpecBase>({
       () => new Error(`Failed to read package.json from "${pkgUpCwd}".`),
     ),
   );
-
-  // Parse CLI arguments and pass generated help text.
-  const parsedArgs = meow(getHelpText(packageJson.name, inputSpec), {
-    importMeta,
-    flags: getFlags(inputSpec),
-    booleanDefault: undefined,
-    autoVersion: true,
-    autoHelp: true,
-  });
-  // Return parse result along with package root
-  return { cliArgs: parsedArgs, packageRoot: path.dirname(packageRoot) };
 };
 
+/**
+ * The name of the flag which is automatically added to CLI flags when parsing CLI arguments.
+ * Passing `--no-interactive` will cause the input collection to never prompt the values from user.
+ */
+export const FLAG_INTERACTIVE = "interactive";
+
+/**
+ * The name of the flag which is automatically added to CLI flags when parsing CLI arguments.
+ * Passing `--config <path>` will read the configuration file from given path, instead of discovering it from current working directory.
+ */
+export const FLAG_CONFIG = "config";
+
+/**
+ * The name of the flag which is automatically added to CLI flags when parsing CLI arguments.
+ * Passing `--answers <file>` will replay the answers recorded earlier with `--save-answers <file>`.
+ */
+export const FLAG_ANSWERS = "answers";
+
+/**
+ * The name of the flag which is automatically added to CLI flags when parsing CLI arguments.
+ * Passing `--save-answers <file>` will record the collected input to given file, after it passes final validation.
+ */
+export const FLAG_SAVE_ANSWERS = "saveAnswers";
+
 /**
  * This interface represents necessary data needed to collect CLI arguments.
  */
@@ -62,6 +204,54 @@ export interface GetCLIArgsParameters<
    * The input specification, containing information about flags and prompting. See {@link inputSpec.InputSpecBase} for more information.
    */
   inputSpec: TInputSpec;
+  /**
+   * The prefix of environment variable names, for properties which have `env` set to `true` in their {@link inputSpec.ValidationSpec}.
+   * Used when generating help text.
+   */
+  envPrefix?: string;
+  /**
+   * The options for discovering and reading the configuration file.
+   * The values of configuration file are used when CLI arguments and environment variables are omitted.
+   * @see configFile.ConfigFileOptions
+   */
+  configFile?: configFile.ConfigFileOptions;
+  /**
+   * The CLI arguments to parse.
+   * By default, `process.argv.slice(2)` is used.
+   */
+  argv?: ReadonlyArray<string>;
+  /**
+   * The name of the command, if the input specification is for a subcommand.
+   * Used when generating help text.
+   */
+  commandName?: string;
+  /**
+   * The customizations for the help text generated from input specification, e.g. description and examples.
+   * @see helpText.HelpTextOptions
+   */
+  help?: helpText.HelpTextOptions;
+  /**
+   * The options for checking input specification for definition mistakes, or `false` to skip the check.
+   * The flags automatically added by this function are always reserved.
+   * @see validateInputSpec
+   */
+  inputSpecValidation?: false | ValidateInputSpecOptions<TInputSpec>;
+  /**
+   * Set this to `false` to not print help text and exit the process when `--help` flag is given.
+   * The flag is then returned as unknown flag, and the help text is still available via `help` property of {@link CLIArgs.cliArgs}.
+   * By default, `meow` handles `--help` flag.
+   */
+  autoHelp?: boolean;
+  /**
+   * Set this to `false` to not print version and exit the process when `--version` flag is given.
+   * By default, `meow` handles `--version` flag.
+   */
+  autoVersion?: boolean;
+  /**
+   * The environment variables used to detect CI environment, in which the input collection is not interactive by default.
+   * By default, `process.env` is used.
+   */
+  env?: Readonly<Record<string, string | undefined>>;
 }
 
 /**
@@ -76,91 +266,95 @@ export interface CLIArgs<TInputSpec extends inputSpec.InputSpecBase> {
    * The root path of the package which invoked this library.
    */
   packageRoot: string;
+  /**
+   * The command used to invoke the program, e.g. `npx my-package@latest`, as shown in help text.
+   */
+  invocation: string;
+  /**
+   * Whether input collection should prompt the values from user.
+   * Will be `false` if `--no-interactive` CLI flag was passed, or if it was omitted and `CI` environment variable is set.
+   */
+  isInteractive: boolean;
+  /**
+   * The contents of the configuration file, if it was specified via `--config` CLI flag, or discovered from current working directory.
+   */
+  config?: configFile.ConfigFile;
+  /**
+   * The contents of the answers file, if it was specified via `--answers` CLI flag.
+   */
+  answers?: answers.AnswersFile;
+  /**
+   * The absolute path of the file where to record the collected input, if it was specified via `--save-answers` CLI flag.
+   */
+  saveAnswers?: string;
 }
 
 /**
  * This is helper type to extract all the flags specified by given input spec.
+ * The flags specified via {@link inputSpec.FlagShorthand} are deduced from the schema.
+ * The flags of the properties of groups are named by prefixing them with the name of the group, see {@link groups.FlattenedInputSpec}.
+ * The sensitive properties also have the flag to read the value from file, see {@link secrets.getFileFlagName}.
  */
-export type Flags<TInputSpec extends inputSpec.InputSpecBase> = {
-  [P in FlagKeys<TInputSpec>]: TInputSpec[P] extends { flag: AnyFlag }
-    ? TInputSpec[P]["flag"]
-    : never;
-};
+export type Flags<TInputSpec extends inputSpec.InputSpecBase> = FlagsOfStages<
+  groups.FlattenedInputSpec<TInputSpec>
+> &
+  FileFlagsOfStages<groups.FlattenedInputSpec<TInputSpec>>;
 
 /**
  * This is helper type to get all the keys of given input spec, which have a CLI flag specification.
  */
 export type FlagKeys<TInputSpec extends inputSpec.InputSpecBase> = {
-  [P in keyof TInputSpec]: TInputSpec[P] extends { flag: AnyFlag } ? P : never;
+  [P in keyof TInputSpec]: TInputSpec[P] extends {
+    flag: AnyFlag | inputSpec.FlagShorthand;
+  }
+    ? P
+    : never;
 }[keyof TInputSpec] &
   string;
 
-const getFlags = <TInputSpec extends inputSpec.InputSpecBase>(
-  stages: TInputSpec,
+type FlagsOfStages<TInputSpec extends inputSpec.InputSpecBase> = {
+  [P in FlagKeys<TInputSpec>]: flags.FlagOf<TInputSpec[P]>;
+};
+
+type FileFlagsOfStages<TInputSpec extends inputSpec.InputSpecBase> = {
+  [P in keyof TInputSpec & string as TInputSpec[P] extends { sensitive: true }
+    ? `${P}File`
+    : never]: typeof FILE_FLAG;
+};
+
+const FILE_FLAG = { type: "string" } as const satisfies AnyFlag;
+
+/**
+ * Gets the `meow` flag definitions of given input specification, as they are registered when parsing CLI arguments.
+ * The flags of the properties of groups are prefixed, and the sensitive properties also have the flag to read the value from file.
+ * The flags automatically added when parsing CLI arguments, e.g. `--no-interactive`, are not included.
+ * @param spec The input specification.
+ * @returns The `meow` flag definitions, keys being the names of the flags.
+ * @throws If explicit `meow` flag definition of some property is not compatible with its schema.
+ */
+export const getFlags = <TInputSpec extends inputSpec.InputSpecBase>(
+  spec: TInputSpec,
 ) =>
+  // The entries follow the same rules as the Flags type, which can not be deduced from Object.fromEntries
   Object.fromEntries(
-    Object.entries(stages)
-      .filter(
-        (
-          tuple,
-        ): tuple is [
-          FlagKeys<TInputSpec>,
-          inputSpec.InputSpecProperty<unknown> & { flag: AnyFlag },
-        ] => "flag" in tuple[1],
-      )
-      .map(([key, { flag }]) => [key, flag] as const),
+    Object.entries(groups.flattenInputSpec(spec)).flatMap(
+      ([key, stage]): Array<readonly [string, AnyFlag]> => {
+        // Will throw if explicit flag is not compatible with schema
+        const flag =
+          stage.type === inputSpec.TYPE_VALIDATE
+            ? flags.getFlag(key, stage)
+            : undefined;
+        return [
+          ...(flag === undefined ? [] : [[key, flag] as const]),
+          ...(secrets.isSensitive(stage)
+            ? [[secrets.getFileFlagName(key), FILE_FLAG] as const]
+            : []),
+        ];
+      },
+    ),
   ) as Flags<TInputSpec>;
 
-const schemaToHelpText = (ast: AST.AST): string => {
-  switch (ast._tag) {
-    case "Union":
-      return ast.types.map(schemaToHelpText).join("|");
-    case "Literal":
-      return typeof ast.literal === "string"
-        ? `"${ast.literal}"`
-        : `${ast.literal}`;
-    case "BooleanKeyword":
-      return "boolean";
-    case "NumberKeyword":
-      return "number";
-    default:
-      throw new Error(`Unrecognized AST: ${ast._tag}`);
-  }
+const isCI = (env: Readonly<Record<string, string | undefined>>) => {
+  const ci = env["CI"];
+  return ci !== undefined && ci !== "" && ci !== "0" && ci !== "false";
 };
-
-const getHelpText = <TInputSpec extends inputSpec.InputSpecBase>(
-  packageName: string,
-  stages: TInputSpec,
-) => `
-  Usage: npx ${packageName}@latest [options...] [folder]
-
-  All options and folder are optional as command-line arguments.
-  If any of them is omitted, the program will prompt for their values.
-  Options:
-    ${Object.entries(stages)
-      .filter(
-        (
-          tuple,
-        ): tuple is [
-          string,
-          inputSpec.ValidationSpec<unknown> & { flag: AnyFlag },
-        ] => "flag" in tuple[1],
-      )
-      .map(
-        ([
-          name,
-          {
-            flag: { shortFlag },
-            prompt: { message },
-            schema,
-            condition,
-          },
-        ]) =>
-          `--${name}, -${shortFlag}\t${message}${
-            condition === undefined
-              ? ""
-              : `\n          ${condition.description}`
-          }\n          Schema: ${schemaToHelpText(schema.ast)}`,
-      )
-      .join("\n    ")}
-`;
@@ -2,9 +2,11 @@
  * @file This file contains function and type definitions used when collecting the final, fully validated input object, from CLI arguments and/or prompting from user.
  */
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import chalk from "chalk";
-import { type AnyFlag } from "meow";
-import inquirer, { type DistinctQuestion, type PromptModule } from "inquirer";
+import inquirer, {
+  type DistinctChoice,
+  type DistinctQuestion,
+  type PromptModule,
+} from "inquirer";
 import * as F from "@effect/data/Function";
 import * as E from "@effect/data/Either";
 import * as R from "@effect/data/ReadonlyRecord";
@@ -13,12 +15,24 @@ import * as N from "@effect/data/Number";
 import * as O from "@effect/data/Option";
 import * as Set from "@effect/data/HashSet";
 import * as Ord from "@effect/data/Order";
-import * as S from "@effect/schema/Schema";
-import * as TF from "@effect/schema/TreeFormatter";
+import type * as S from "@effect/schema/Schema";
 import * as Match from "@effect/match";
-import print from "./print";
+import * as print from "./print";
+import * as errors from "./errors";
+import * as sources from "./sources";
+import type * as configFile from "./config-file";
+import * as answers from "./answers";
+import getEquivalentCommand from "./equivalent-command";
+import * as positionals from "./positionals";
+import * as flags from "./flags";
+import * as groups from "./groups";
+import * as lists from "./lists";
+import * as prompts from "./prompts";
+import * as prompter from "./prompter";
+import * as secrets from "./secrets";
 import type * as cliArgs from "./cli-args";
 import * as inputSpec from "./input-spec";
+import * as validator from "./validator-adapter";
 
 /**
  * Binds to a given input specification, returning callback which will perform the actual input building - either from CLI arguments, prompting from user, or a combination of both.
@@ -33,61 +47,107 @@ export default <TInputSpec extends inputSpec.InputSpecBase>(
   async ({
     cliArgs: cliArgsParam,
     inputValidator,
-    getDynamicValueInput,
-    promptModule,
+    getDynamicValueInput: getNestedDynamicValueInput,
+    ...options
   }) => {
+    // The groups are collected as prefixed properties, and nested back only for dynamic value input and validation
+    const flatSpec = groups.flattenInputSpec(spec);
+    const getDynamicValueInput: GetDynamicValueArg<inputSpec.InputSpecBase> = (
+      values,
+    ) =>
+      getNestedDynamicValueInput(
+        groups.nestInput(spec, values) as InputFromCLIOrUser<TInputSpec>,
+      );
     // Then, collect the inputs - use CLI args or prompt from user
     // Keep collecting until all inputs pass validation
-    let cliArgs: CLIArgsInfo<TInputSpec> = cliArgsParam;
-    let input: InputFromCLIOrUser<TInputSpec> = {};
+    let cliArgs = cliArgsParam as CLIArgsInfo<inputSpec.InputSpecBase>;
+    let input: Record<string, unknown> = {};
+    const origins: Record<string, print.CollectedValueOrigin> = {};
     let validatedInput: GetValidatedInput<typeof inputValidator> | undefined;
-    if (!promptModule) {
-      promptModule = defaultPrompt;
-    }
-    do {
-      // Get the inputs from CLI args or user prompt
-      // On first loop, the 'input' will be empty and all the things will be checked/asked.
-      // On subsequent loops (if any), only the errored properties will be missing, and thus checked/asked again.
-      const cliArgsSet: Set.HashSet<CLIArgsInfoSetElement<TInputSpec>> =
-        await collectInput(
-          promptModule,
-          spec,
+    let hasPrompted = false;
+    let attemptCount = 0;
+    const context = createCollectionContext(
+      flatSpec,
+      cliArgsParam.flags,
+      options,
+    );
+    try {
+      do {
+        throwIfStopped(context, attemptCount++);
+        // Get the inputs from CLI args or user prompt
+        // On first loop, the 'input' will be empty and all the things will be checked/asked.
+        // On subsequent loops (if any), only the errored properties will be missing, and thus checked/asked again.
+        const collected = await collectInput(
+          context,
+          flatSpec,
           cliArgs,
           input,
           getDynamicValueInput,
         );
-      // Validate the inputs in a way that template creation part knows
-      const validationResult = await inputValidator(input);
-      if (Array.isArray(validationResult)) {
-        // When there are errors, notify user and adjust 'input' variable.
-        for (const [valueName, errorMessage] of validationResult) {
-          // Notify user about the error
-          print(
-            chalk.redBright(
-              `Error for "${String(valueName)}":\n${errorMessage}\n`,
-            ),
-          );
-          // Delete it so that collectInputs would ask for it again
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access
-          delete (input as any)[valueName];
-        }
-        if (!Set.isHashSet(cliArgs)) {
-          cliArgs = cliArgsSet;
-        }
-      } else if (typeof validationResult === "string") {
-        // This signifies internal error, as at this point the input itself is structurally invalid
-        // Clear everything and start asking from clean slate
-        print(
-          chalk.red(
-            `There has been an internal error when collecting input.\nIgnoring all CLI flags from now on, and starting to collect input from beginning.\nError message: ${validationResult}`,
-          ),
+        hasPrompted ||= collected.hasPrompted;
+        Object.assign(origins, collected.origins);
+        // Let user review and re-enter the values before they are validated, if enabled
+        const hasPromptedDuringReview = await reviewInput(
+          context,
+          flatSpec,
+          cliArgs,
+          input,
+          origins,
+          getDynamicValueInput,
         );
-        cliArgs = { flags: {}, input: [] };
-        input = {};
-      } else {
-        validatedInput = validationResult;
-      }
-    } while (validatedInput === undefined);
+        hasPrompted ||= hasPromptedDuringReview;
+        // Validate the inputs in a way that template creation part knows
+        const validationResult = await validateInput(
+          context,
+          spec,
+          collected.issues,
+          inputValidator,
+          groups.nestInput(spec, input) as InputFromCLIOrUser<TInputSpec>,
+        );
+        if (Array.isArray(validationResult)) {
+          // When there are errors, notify user and adjust 'input' variable.
+          removeInvalidValues(context.printer, spec, validationResult, input);
+          if (!Set.isHashSet(cliArgs)) {
+            cliArgs = collected.cliArgsSet;
+          }
+        } else if (typeof validationResult === "string") {
+          // This signifies internal error, as at this point the input itself is structurally invalid
+          // Clear everything and start asking from clean slate
+          context.printer({
+            kind: "internalError",
+            level: "error",
+            errorMessage: validationResult,
+          });
+          cliArgs = Set.empty();
+          input = {};
+        } else {
+          validatedInput = validationResult;
+        }
+      } while (validatedInput === undefined);
+    } catch (error) {
+      // Attach the values collected so far, so that caller can e.g. clean up based on them
+      throw error instanceof CollectionStop
+        ? new errors.InputCollectionStoppedError(
+            error.reason,
+            groups.nestInput(spec, input),
+          )
+        : error;
+    }
+    if (context.saveAnswers !== undefined) {
+      await answers.writeAnswersFile(context.saveAnswers, flatSpec, input);
+      context.printer({
+        kind: "answersSaved",
+        level: "info",
+        filePath: context.saveAnswers,
+      });
+    }
+    if (hasPrompted && context.invocation !== undefined) {
+      context.printer({
+        kind: "equivalentCommand",
+        level: "info",
+        command: getEquivalentCommand(context.invocation, flatSpec, input),
+      });
+    }
     return validatedInput;
   };
 
@@ -96,6 +156,7 @@ export default <TInputSpec extends inputSpec.InputSpecBase>(
  * For that, it will take the necessary data from {@link cliArgs.CLIArgs}, the name of the dynamic value callback parameter, and the callback to perform final validation.
  *
  * If CLI args contain, or the user gives input, which is deemed to be invalid by the given `inputValidator`, the user will be re-prompted to give the values until the validator accepts them.
+ * In non-interactive mode, the user is never prompted, and instead {@link errors.NonInteractiveInputError} is thrown, containing all the missing and invalid properties.
  * @see {@link CLIArgsResult}
  * @see {@link InputValidator}
  * @see {@link inputSpec.InputSpecBase}
@@ -134,6 +195,104 @@ export type BuildValidatedInputParameters<
    * For more information, see https://github.com/SBoudrias/Inquirer.js/issues/495 .
    */
   promptModule?: PromptModule;
+
+  /**
+   * Override the {@link prompter.Prompter} used to prompt the value from user, e.g. to use other prompt library than legacy `inquirer`.
+   * If specified, the `promptModule` is ignored.
+   * @see prompter.createInquirerPromptsPrompter
+   * @see prompter.createScriptedPrompter
+   */
+  prompter?: prompter.Prompter;
+
+  /**
+   * Override the {@link print.Printer} used to report the progress of input collection.
+   * By default, the events are printed to console using `chalk` styling, see {@link print.defaultPrinter}.
+   */
+  printer?: print.Printer;
+
+  /**
+   * Set this to `false` to never prompt values from user.
+   * Instead, all the missing and invalid properties, as well as errors returned by `inputValidator`, will be collected, reported via `printer`, and thrown as {@link errors.NonInteractiveInputError}.
+   * By default, the mode is interactive.
+   * @see cliArgs.CLIArgs.isInteractive
+   */
+  isInteractive?: boolean;
+
+  /**
+   * The environment variables to consult for properties which have `env` specified in their {@link inputSpec.ValidationSpec}.
+   * By default, `process.env` is used.
+   */
+  env?: Readonly<Record<string, string | undefined>>;
+
+  /**
+   * The prefix of environment variable names, for properties which have `env` set to `true` in their {@link inputSpec.ValidationSpec}.
+   * @see sources.getEnvVariableName
+   */
+  envPrefix?: string;
+
+  /**
+   * The contents of configuration file, which will be used when CLI arguments and environment variables do not specify the value for property.
+   * Typically obtained via {@link cliArgs.CLIArgs.config}.
+   * Keys which do not correspond to any {@link inputSpec.ValidationSpec} will be reported via `printer`.
+   */
+  config?: configFile.ConfigFile;
+
+  /**
+   * The answers recorded during earlier input collection, which will be used when CLI arguments do not specify the value for property.
+   * Only the properties which are missing from the answers, or are no longer valid, will be prompted from user.
+   * Typically obtained via {@link cliArgs.CLIArgs.answers}.
+   */
+  answers?: answers.AnswersFile;
+
+  /**
+   * The path of the file where to write the collected input, after it passes final validation.
+   * The values are encoded via the schemas of the properties, and the file can be later given as `answers` to replay them.
+   * Typically obtained via {@link cliArgs.CLIArgs.saveAnswers}.
+   */
+  saveAnswers?: string;
+
+  /**
+   * The command used to invoke the program, e.g. `npx my-package@latest`.
+   * If specified, and some of the values were prompted from user, the command line which reproduces the same input without prompting is emitted to `printer` once input is collected.
+   * Typically obtained via {@link cliArgs.CLIArgs.invocation}.
+   * @see getEquivalentCommand
+   */
+  invocation?: string;
+
+  /**
+   * Set this to `true` to show all the collected values, along with their origins, to user before final validation.
+   * The user can then either confirm the values, or pick a property to re-enter, after which the conditions of the later properties are evaluated again.
+   * The review step is skipped in non-interactive mode.
+   * @see print.PrintEventReview
+   */
+  review?: boolean;
+
+  /**
+   * Set this to enable going back during prompting: when user gives this answer to a prompt, the previously prompted property is prompted again.
+   * The values of the later properties with `condition` are cleared too, as their conditions might depend on the changed value, and the dynamic value input is computed again.
+   * The answer can be typed to text prompts, and is offered as the last choice of `list` and `rawlist` prompts, so it should not be a valid value of any such property, e.g. `"<back>"`.
+   */
+  backAnswer?: string;
+
+  /**
+   * The maximum number of times the collected input is passed to `inputValidator`, after which {@link errors.InputCollectionStoppedError} is thrown instead of prompting the rejected values again.
+   * By default, there is no limit.
+   */
+  maxAttempts?: number;
+
+  /**
+   * The maximum number of times the value of single property is prompted from user, after which {@link errors.InputCollectionStoppedError} is thrown.
+   * The answers rejected by the schema within the prompt are not counted, only the prompts themselves, e.g. caused by errors returned by `inputValidator`, by going back, or by prompter returning answer which does not pass validation, like {@link prompter.createScriptedPrompter} does.
+   * By default, there is no limit.
+   */
+  maxAttemptsPerProperty?: number;
+
+  /**
+   * The signal to cancel input collection, e.g. when the program is about to exit.
+   * Once aborted, the current prompt is abandoned, and {@link errors.InputCollectionStoppedError} is thrown.
+   * The same error is thrown when prompt library reports that user force closed the prompt, e.g. by pressing Ctrl-C with `@inquirer/prompts`.
+   */
+  signal?: AbortSignal;
 };
 
 /**
@@ -166,16 +325,25 @@ export type InputValidator<
 
 /**
  * This type represents data which has been collected from CLI or prompted from user, and should be validated.
+ * The values of properties of groups are in nested objects, and the values of list-valued properties are arrays.
  * @see {@link InputValidator}
  */
 export type InputFromCLIOrUser<TInputSpec extends inputSpec.InputSpecBase> =
-  Partial<{
-    -readonly [P in SchemaKeys<TInputSpec>]: TInputSpec[P] extends inputSpec.ValidationSpec<
-      infer _
-    >
-      ? S.To<TInputSpec[P]["schema"]>
-      : never;
-  }>;
+  Partial<
+    {
+      -readonly [P in SchemaKeys<TInputSpec>]: TInputSpec[P] extends inputSpec.ValidationSpec<
+        infer _
+      >
+        ? lists.ListValue<TInputSpec[P], S.To<TInputSpec[P]["schema"]>>
+        : never;
+    } & {
+      -readonly [P in groups.GroupKeys<TInputSpec>]: TInputSpec[P] extends inputSpec.GroupSpec<
+        infer _
+      >
+        ? InputFromCLIOrUser<TInputSpec[P]["properties"]>
+        : never;
+    }
+  >;
 
 /**
  * This type represents the necessary data required from {@link cliArgs.CLIArgs} in order to construct final validated input object.
@@ -197,48 +365,487 @@ export type SchemaKeys<TInputSpec extends inputSpec.InputSpecBase> = {
 }[keyof TInputSpec];
 
 const collectInput = async <TInputSpec extends inputSpec.InputSpecBase>(
-  promptModule: PromptModule,
+  context: CollectionContext,
   spec: TInputSpec,
   cliArgs: CLIArgsInfo<TInputSpec>,
   values: InputFromCLIOrUser<TInputSpec>,
   getDynamicValueInput: GetDynamicValueArg<TInputSpec>,
-): Promise<Set.HashSet<CLIArgsInfoSetElement<TInputSpec>>> => {
+): Promise<CollectInputResult<TInputSpec>> => {
   let dynamicValueInput: O.Option<inputSpec.GetDynamicValueInput<TInputSpec>> =
     O.fromNullable(getDynamicValueInput(values));
   let cliArgsSet = Set.make<ReadonlyArray<CLIArgsInfoSetElement<TInputSpec>>>();
-  for (const [stageName, stageInfo] of getInputSpecOrdered(spec)) {
-    if (!(stageName in values)) {
-      F.pipe(
-        Match.value(
-          O.fromNullable(
-            await handleStage(
-              promptModule,
-              stageName,
-              stageInfo,
-              cliArgs,
-              dynamicValueInput,
-            ),
-          ),
-        ),
-        Match.when(O.isSome, ({ value: { value, fromCLI } }) => {
-          // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-          values[stageName as keyof typeof values] = value;
-          if (O.isNone(dynamicValueInput)) {
-            dynamicValueInput = O.fromNullable(getDynamicValueInput(values));
-          }
-          if (fromCLI) {
-            cliArgsSet = Set.add(
-              cliArgsSet,
-              stageName as CLIArgsInfoSetElement<TInputSpec>,
-            );
-          }
-        }),
-        // End pattern matching
-        Match.option,
+  const origins: Record<string, print.CollectedValueOrigin> = {};
+  const issues: Array<errors.NonInteractiveInputIssue> = [];
+  const ordered = getInputSpecOrdered(spec);
+  // The names of the properties prompted so far, in order to go back to previous prompt
+  const promptedNames: Array<string> = [];
+  let index = 0;
+  while (index < ordered.length) {
+    const [stageName, stageInfo] = ordered[index];
+    const stageResult = isStageToBeHandled(
+      stageName,
+      stageInfo,
+      values,
+      issues,
+      dynamicValueInput,
+    )
+      ? await handleStage(
+          context,
+          stageName,
+          stageInfo,
+          cliArgs,
+          dynamicValueInput,
+        )
+      : null;
+    if (stageResult !== null && "back" in stageResult) {
+      index = goBack(
+        context.printer,
+        ordered,
+        index,
+        promptedNames,
+        values,
+        origins,
+      );
+      dynamicValueInput = O.fromNullable(getDynamicValueInput(values));
+      continue;
+    }
+    ++index;
+    F.pipe(
+      Match.value(O.fromNullable(stageResult)),
+      Match.when(O.isSome, ({ value: result }) => {
+        if ("issue" in result) {
+          issues.push(result.issue);
+          return;
+        }
+        const { value, origin } = result;
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        values[stageName as keyof typeof values] = value;
+        origins[stageName] = origin;
+        // Query again, as the dynamic value input might be a snapshot of values, e.g. when groups are nested
+        dynamicValueInput = O.fromNullable(getDynamicValueInput(values));
+        if (origin === "prompt") {
+          promptedNames.push(stageName);
+        } else {
+          cliArgsSet = Set.add(
+            cliArgsSet,
+            stageName as CLIArgsInfoSetElement<TInputSpec>,
+          );
+        }
+      }),
+      // End pattern matching
+      Match.option,
+    );
+  }
+  return {
+    cliArgsSet,
+    issues,
+    origins,
+    hasPrompted: Object.values(origins).includes("prompt"),
+  };
+};
+
+// Clears the value of previously prompted property, along with values of later properties with condition, as the condition might depend on it
+// Returns the index of the stage to continue from
+const goBack = (
+  printer: print.Printer,
+  ordered: ReadonlyArray<
+    readonly [string, inputSpec.InputSpecProperty<unknown>]
+  >,
+  currentIndex: number,
+  promptedNames: Array<string>,
+  values: Record<string, unknown>,
+  origins: Record<string, print.CollectedValueOrigin>,
+) => {
+  const previousName = promptedNames.pop();
+  if (previousName === undefined) {
+    printer({
+      kind: "backUnavailable",
+      level: "warn",
+      propertyName: ordered[currentIndex][0],
+    });
+    return currentIndex;
+  }
+  const previousIndex = ordered.findIndex(([name]) => name === previousName);
+  for (const [propertyName, stage] of ordered.slice(previousIndex)) {
+    if (
+      propertyName === previousName ||
+      (stage.type === inputSpec.TYPE_VALIDATE && stage.condition !== undefined)
+    ) {
+      delete values[propertyName];
+      delete origins[propertyName];
+    }
+  }
+  return previousIndex;
+};
+
+const isStageToBeHandled = (
+  stageName: string,
+  stage: inputSpec.InputSpecProperty<unknown>,
+  values: Record<string, unknown>,
+  issues: ReadonlyArray<errors.NonInteractiveInputIssue>,
+  dynamicValueInput: O.Option<unknown>,
+) =>
+  !(stageName in values) &&
+  // If some of the previous values were missing in non-interactive mode, the dynamic value might not be available
+  // In such case, skip the stages which need it, as the error will be reported anyway.
+  !(
+    issues.length > 0 &&
+    O.isNone(dynamicValueInput) &&
+    (stage.condition !== undefined ||
+      (stage.type === inputSpec.TYPE_MESSAGE &&
+        typeof stage.message === "function"))
+  );
+
+const validateInput = async <
+  TInputSpec extends inputSpec.InputSpecBase,
+  TValidatedInput,
+>(
+  context: CollectionContext,
+  spec: TInputSpec,
+  issues: ReadonlyArray<errors.NonInteractiveInputIssue>,
+  inputValidator: InputValidator<TInputSpec, TValidatedInput>,
+  input: InputFromCLIOrUser<TInputSpec>,
+) => {
+  if (issues.length > 0) {
+    // Only possible in non-interactive mode
+    failNonInteractive(context.printer, issues);
+  }
+  const validationResult = await inputValidator(input);
+  if (!context.isInteractive) {
+    // Validation errors can not be fixed by prompting, so report them all at once
+    failNonInteractiveIfValidationErrors(
+      context,
+      spec,
+      groups.flattenInput(spec, input),
+      validationResult,
+    );
+  }
+  return validationResult;
+};
+
+const createCollectionContext = (
+  spec: inputSpec.InputSpecBase,
+  cliFlags: Readonly<Record<string, unknown>>,
+  {
+    promptModule,
+    prompter: prompterParam,
+    printer,
+    isInteractive,
+    env,
+    envPrefix,
+    config,
+    answers: answersFile,
+    saveAnswers,
+    invocation,
+    review,
+    backAnswer,
+    maxAttempts,
+    maxAttemptsPerProperty,
+    signal,
+  }: Omit<
+    BuildValidatedInputParameters<inputSpec.InputSpecBase, unknown>,
+    "cliArgs" | "inputValidator" | "getDynamicValueInput"
+  >,
+): CollectionContext => {
+  const context: CollectionContext = {
+    prompter: guardPrompter(
+      prompterParam ??
+        prompter.createInquirerPrompter(promptModule ?? defaultPrompt),
+      signal,
+      maxAttemptsPerProperty,
+    ),
+    printer: printer ?? print.defaultPrinter,
+    isInteractive: isInteractive !== false,
+    review: isInteractive !== false && review === true,
+    backAnswer,
+    maxAttempts,
+    signal,
+    envPrefix,
+    config,
+    saveAnswers,
+    invocation,
+    restStartIndex: positionals.getRestStartIndex(spec),
+    valueSources: [
+      // Sensitive values given via file flags are just as explicit as CLI arguments
+      secrets.createFileSource(cliFlags),
+      ...(answersFile === undefined
+        ? []
+        : [sources.createAnswersSource(answersFile)]),
+      sources.createEnvSource(env ?? process.env, envPrefix),
+      ...(config === undefined ? [] : [sources.createConfigSource(config)]),
+    ],
+  };
+  if (config !== undefined) {
+    reportUnknownConfigKeys(context.printer, spec, config);
+  }
+  return context;
+};
+
+// Thrown from deep within input collection, and converted to errors.InputCollectionStoppedError along with partial input
+class CollectionStop {
+  public constructor(
+    public readonly reason: errors.InputCollectionStopReason,
+  ) {}
+}
+
+const throwIfStopped = (
+  { signal, maxAttempts }: CollectionContext,
+  attemptCount: number,
+) => {
+  if (signal?.aborted === true) {
+    throw new CollectionStop({ kind: "cancelled", cause: signal.reason });
+  }
+  if (maxAttempts !== undefined && attemptCount >= maxAttempts) {
+    throw new CollectionStop({ kind: "attemptsExceeded", maxAttempts });
+  }
+};
+
+// Limits the number of prompts per property, and stops prompting once the signal is aborted
+const guardPrompter = (
+  prompt: prompter.Prompter,
+  signal: AbortSignal | undefined,
+  maxAttemptsPerProperty: number | undefined,
+): prompter.Prompter => {
+  const attemptCounts: Record<string, number> = {};
+  return async (request) => {
+    const { propertyName } = request;
+    const attemptCount = (attemptCounts[propertyName] ?? 0) + 1;
+    if (signal?.aborted === true) {
+      throw new CollectionStop({ kind: "cancelled", cause: signal.reason });
+    }
+    // The review prompt has no property name, and is not limited
+    if (
+      propertyName !== "" &&
+      maxAttemptsPerProperty !== undefined &&
+      attemptCount > maxAttemptsPerProperty
+    ) {
+      throw new CollectionStop({
+        kind: "propertyAttemptsExceeded",
+        propertyName,
+        maxAttempts: maxAttemptsPerProperty,
+      });
+    }
+    attemptCounts[propertyName] = attemptCount;
+    try {
+      return await raceWithSignal(
+        prompt(signal === undefined ? request : { ...request, signal }),
+        signal,
       );
+    } catch (error) {
+      // The @inquirer/prompts throws this when user presses Ctrl-C
+      throw error instanceof Error && error.name === "ExitPromptError"
+        ? new CollectionStop({ kind: "cancelled", cause: error })
+        : error;
+    }
+  };
+};
+
+const raceWithSignal = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+) =>
+  signal === undefined
+    ? promise
+    : new Promise<T>((resolve, reject) => {
+        const onAbort = () =>
+          reject(
+            new CollectionStop({ kind: "cancelled", cause: signal.reason }),
+          );
+        signal.addEventListener("abort", onAbort, { once: true });
+        // The prompter might have caused the abort before the listener was added
+        if (signal.aborted) {
+          onAbort();
+        }
+        promise
+          .then(resolve, reject)
+          .finally(() => signal.removeEventListener("abort", onAbort));
+      });
+
+const removeInvalidValues = (
+  printer: print.Printer,
+  spec: inputSpec.InputSpecBase,
+  validationErrors: ReadonlyArray<readonly [PropertyKey, string]>,
+  input: Record<string, unknown>,
+) => {
+  for (const [valueName, errorMessage] of validationErrors) {
+    // Notify user about the error
+    printer({
+      kind: "validationError",
+      level: "error",
+      propertyName: String(valueName),
+      errorMessage: redactValidationError(
+        spec,
+        String(valueName),
+        errorMessage,
+        input,
+      ),
+    });
+    // Delete it so that collectInputs would ask for it again
+    // If it is a group, all of its properties are asked again
+    for (const propertyName of groups.getFlatPropertyNames(
+      spec,
+      String(valueName),
+    )) {
+      delete input[propertyName];
+    }
+  }
+};
+
+const reportUnknownConfigKeys = (
+  printer: print.Printer,
+  spec: inputSpec.InputSpecBase,
+  { filePath, values }: configFile.ConfigFile,
+) => {
+  const unknownKeys = Object.keys(values).filter(
+    (key) =>
+      !Object.prototype.hasOwnProperty.call(spec, key) ||
+      spec[key].type !== inputSpec.TYPE_VALIDATE,
+  );
+  if (unknownKeys.length > 0) {
+    printer({
+      kind: "configUnknownKeys",
+      level: "warn",
+      filePath,
+      unknownKeys,
+    });
+  }
+};
+
+// Does nothing unless review is enabled, returns true if some values were prompted from user during review
+const reviewInput = async <TInputSpec extends inputSpec.InputSpecBase>(
+  context: CollectionContext,
+  spec: TInputSpec,
+  cliArgs: CLIArgsInfo<TInputSpec>,
+  values: InputFromCLIOrUser<TInputSpec>,
+  origins: Record<string, print.CollectedValueOrigin>,
+  getDynamicValueInput: GetDynamicValueArg<TInputSpec>,
+) => {
+  const ordered = getInputSpecOrdered(spec);
+  const valuesRecord: Record<string, unknown> = values;
+  let hasPrompted = false;
+  while (context.review) {
+    const entries = ordered.flatMap(([propertyName, stage]) =>
+      stage.type === inputSpec.TYPE_VALIDATE && propertyName in valuesRecord
+        ? [
+            {
+              propertyName,
+              value: secrets.redactValue(stage, valuesRecord[propertyName]),
+              origin: origins[propertyName] ?? "prompt",
+            },
+          ]
+        : [],
+    );
+    context.printer({ kind: "review", level: "info", entries });
+    const selected = await promptReview(context.prompter, entries);
+    if (selected === undefined) {
+      return hasPrompted;
+    }
+    const stage = spec[selected] as inputSpec.ValidationSpec<
+      inputSpec.GetDynamicValueInput<TInputSpec>
+    >;
+    const question = await prompts.resolvePrompt(
+      selected,
+      stage,
+      O.fromNullable(getDynamicValueInput(values)),
+    );
+    const currentValue = F.pipe(
+      lists.encode(stage, valuesRecord[selected]),
+      E.getOrUndefined,
+    );
+    valuesRecord[selected] = O.getOrThrow(
+      await promptValueFromUser<TInputSpec>(
+        context.prompter,
+        selected,
+        stage,
+        // The items of list are prompted one by one, so the current list can not be used as default
+        // The current value of sensitive property must not be revealed as default
+        currentValue === undefined ||
+          stage.list !== undefined ||
+          stage.sensitive === true
+          ? question
+          : { ...question, default: currentValue },
+        // Going back makes no sense during review
+        undefined,
+      ),
+    );
+    origins[selected] = "prompt";
+    hasPrompted = true;
+    await removeInapplicableValues(
+      ordered.filter(([, { orderNumber }]) => orderNumber > stage.orderNumber),
+      values,
+      origins,
+      getDynamicValueInput,
+    );
+    // Collect the values of later properties which became applicable
+    const collected = await collectInput(
+      context,
+      spec,
+      cliArgs,
+      values,
+      getDynamicValueInput,
+    );
+    Object.assign(origins, collected.origins);
+  }
+  return hasPrompted;
+};
+
+// Returns the name of the property to re-enter, or undefined if user confirmed the values
+const promptReview = async (
+  prompt: prompter.Prompter,
+  entries: ReadonlyArray<print.ReviewEntry>,
+) => {
+  const propertyNames = entries.map(({ propertyName }) => propertyName);
+  const selected = await prompt(
+    prompter.createPromptRequest(
+      "",
+      {
+        type: "list",
+        message: "Are these values correct? Select a property to change it.",
+        choices: [
+          { name: "Yes, continue", value: true },
+          ...propertyNames.map((propertyName) => ({
+            name: propertyName,
+            value: propertyName,
+          })),
+        ],
+      },
+      (answer) =>
+        answer === true ||
+        (typeof answer === "string" && propertyNames.includes(answer)) ||
+        "Please confirm the values, or select one of the properties.",
+    ),
+  );
+  return typeof selected === "string" ? selected : undefined;
+};
+
+// Once the value of some property changes, the conditions of later properties might no longer hold
+const removeInapplicableValues = async <
+  TInputSpec extends inputSpec.InputSpecBase,
+>(
+  stages: ReadonlyArray<
+    [
+      string,
+      inputSpec.InputSpecProperty<inputSpec.GetDynamicValueInput<TInputSpec>>,
+    ]
+  >,
+  values: InputFromCLIOrUser<TInputSpec>,
+  origins: Record<string, print.CollectedValueOrigin>,
+  getDynamicValueInput: GetDynamicValueArg<TInputSpec>,
+) => {
+  const valuesRecord: Record<string, unknown> = values;
+  for (const [propertyName, stage] of stages) {
+    const dynamicValueInput = getDynamicValueInput(values);
+    if (
+      stage.type === inputSpec.TYPE_VALIDATE &&
+      stage.condition !== undefined &&
+      propertyName in valuesRecord &&
+      dynamicValueInput !== undefined &&
+      (await stage.condition.isApplicable(dynamicValueInput)) !== true
+    ) {
+      delete valuesRecord[propertyName];
+      delete origins[propertyName];
     }
   }
-  return cliArgsSet;
 };
 
 const getInputSpecOrdered = <TInputSpec extends inputSpec.InputSpecBase>(
@@ -247,6 +854,15 @@ const getInputSpecOrdered = <TInputSpec extends inputSpec.InputSpecBase>(
   F.pipe(
     stages,
     R.toEntries,
+    // The groups have already been flattened by groups.flattenInputSpec
+    A.filter(
+      (
+        stage,
+      ): stage is [
+        string,
+        Exclude<(typeof stage)[1], inputSpec.GroupSpecBase>,
+      ] => stage[1].type !== inputSpec.TYPE_GROUP,
+    ),
     A.sort(
       F.pipe(
         N.Order,
@@ -265,7 +881,7 @@ const getInputSpecOrdered = <TInputSpec extends inputSpec.InputSpecBase>(
   );
 
 const handleStage = async <TInputSpec extends inputSpec.InputSpecBase>(
-  promptModule: PromptModule,
+  context: CollectionContext,
   valueName: keyof TInputSpec,
   stage: inputSpec.InputSpecProperty<
     inputSpec.GetDynamicValueInput<TInputSpec>
@@ -273,32 +889,92 @@ const handleStage = async <TInputSpec extends inputSpec.InputSpecBase>(
   cliArgs: CLIArgsInfo<TInputSpec>,
   components: O.Option<inputSpec.GetDynamicValueInput<TInputSpec>>,
 ) => {
-  const maybeResult = await F.pipe(
-    Match.value(stage),
-    Match.when(
-      (
-        stage,
-      ): stage is inputSpec.MessageSpec<
-        inputSpec.GetDynamicValueInput<TInputSpec>
-      > => stage.type === "message",
-      (stage): Promise<O.Option<Promise<StageHandlingResult<TInputSpec>>>> =>
-        Promise.resolve(handleStageMessage(stage, components)),
+  const isApplicable = await isConditionApplicable(
+    context.printer,
+    String(valueName),
+    stage.condition,
+    components,
+  );
+  const maybeResult = isApplicable
+    ? await F.pipe(
+        Match.value(stage),
+        Match.when(
+          (
+            stage,
+          ): stage is inputSpec.MessageSpec<
+            inputSpec.GetDynamicValueInput<TInputSpec>
+          > => stage.type === "message",
+          (
+            stage,
+          ): Promise<O.Option<Promise<StageHandlingResult<TInputSpec>>>> =>
+            Promise.resolve(
+              handleStageMessage(context.printer, stage, components),
+            ),
+        ),
+        Match.orElse(
+          (
+            stage,
+          ): Promise<O.Option<Promise<StageHandlingResult<TInputSpec>>>> =>
+            Promise.resolve(
+              handleStageStateMutation(
+                context,
+                valueName,
+                stage,
+                cliArgs,
+                components,
+              ),
+            ),
+        ),
+      )
+    : O.none();
+  return O.getOrNull(maybeResult);
+};
+
+// Prints the message if condition evaluates to string
+const isConditionApplicable = async <TDynamicValueInput>(
+  printer: print.Printer,
+  propertyName: string,
+  condition: inputSpec.ConditionWithDescription<TDynamicValueInput> | undefined,
+  components: O.Option<TDynamicValueInput>,
+) =>
+  F.pipe(
+    await F.pipe(
+      // Match the condition
+      Match.value(condition),
+      // If condition is not specified, then it is interpreted as true
+      Match.when(Match.undefined, F.constTrue),
+      // Otherwise, condition is a function -> invoke it to get the actual boolean value
+      Match.orElse(({ isApplicable }) =>
+        isApplicable(O.getOrThrow(components)),
+      ),
     ),
+    // Start new pattern matching
+    Match.value,
+    // If the condition pattern match evaluated to true, proceed
+    Match.when(true, constTrue),
+    // Else if the condition pattern match evaluated to string, print the string
     Match.orElse(
-      (stage): Promise<O.Option<Promise<StageHandlingResult<TInputSpec>>>> =>
-        handleStageStateMutation(
-          promptModule,
-          valueName,
-          stage,
-          cliArgs,
-          components,
+      F.flow(
+        Match.value,
+        Match.when(
+          Match.string,
+          (message) => (
+            printer({
+              kind: "conditionMessage",
+              level: "info",
+              propertyName,
+              message,
+            }),
+            false
+          ),
         ),
+        Match.orElse(F.constFalse),
+      ),
     ),
   );
-  return O.getOrNull(maybeResult);
-};
 
 const handleStageMessage = <TInputSpec extends inputSpec.InputSpecBase>(
+  printer: print.Printer,
   {
     message,
   }: inputSpec.MessageSpec<inputSpec.GetDynamicValueInput<TInputSpec>>,
@@ -314,187 +990,411 @@ const handleStageMessage = <TInputSpec extends inputSpec.InputSpecBase>(
     // Wrap the result of pattern match (string | undefined) to perform another match
     Match.value,
     // If string -> print the message as side-effect
-    Match.when(Match.string, (str) => print(str)),
+    Match.when(Match.string, (message) =>
+      printer({ kind: "message", level: "info", message }),
+    ),
     // Finalize 2nd matching, otherwise it will never get executed
     Match.option,
     O.none,
   );
 
+// The condition has already been checked by handleStage
 // The asyncness here is not handled particularly nicely
 // I'm not quite sure how @effect -umbrella libs will handle that eventually.
 // FP-TS had Tasks, but @effect seems to lack those, and use the fiber-based Effect thingy.
 // I guess that works too, but pairing that with newer stuff like pattern matching etc doesn't seem to be quite intuitive at least.
-const handleStageStateMutation = async <
-  TInputSpec extends inputSpec.InputSpecBase,
->(
-  promptModule: PromptModule,
+const handleStageStateMutation = <TInputSpec extends inputSpec.InputSpecBase>(
+  context: CollectionContext,
   valueName: keyof TInputSpec,
-  {
-    condition,
-    schema,
-    flag,
-    prompt,
-  }: inputSpec.ValidationSpec<inputSpec.GetDynamicValueInput<TInputSpec>>,
+  stage: inputSpec.ValidationSpec<inputSpec.GetDynamicValueInput<TInputSpec>>,
   cliArgs: CLIArgsInfo<TInputSpec>,
   components: O.Option<inputSpec.GetDynamicValueInput<TInputSpec>>,
-): Promise<O.Option<Promise<StageHandlingResult<TInputSpec>>>> => {
-  const isApplicable = await F.pipe(
-    // Match the condition
-    Match.value(condition),
-    // If condition is not specified, then it is interpreted as true
-    Match.when(Match.undefined, F.constTrue),
-    // Otherwise, condition is a function -> invoke it to get the actual boolean value
-    Match.orElse(({ isApplicable }) => isApplicable(O.getOrThrow(components))),
-  );
+): O.Option<Promise<StageHandlingResult<TInputSpec>>> => {
+  const { prompter: prompt, isInteractive } = context;
+  const { schema } = stage;
   return F.pipe(
-    isApplicable,
-    // Start new pattern matching, which will perform the actual state mutation
+    // Try to get the value from CLI flags or args, or other sources
+    getValueFromSources<TInputSpec>(context, String(valueName), stage, cliArgs),
+    // Start next pattern matching
     Match.value,
-    // If the condition pattern match evaluated to true, proceed
-    Match.when(true, () =>
-      F.pipe(
-        // Try to get the value from CLI flags or args
-        getValueFromCLIFlagsOrArgs(String(valueName), schema, flag, cliArgs),
-        // Start next pattern matching
-        Match.value,
-        // When value is not set, or is invalid (= undefined), then prompt value from user
-        Match.when(O.isNone, async () => ({
-          value: await promptValueFromUser(promptModule, schema, prompt),
-          fromCLI: false,
-        })),
-        // If valid value was in CLI flags or args, use it as-is
-        Match.orElse(({ value }) => Promise.resolve({ value, fromCLI: true })),
-      ),
+    // If valid value was in CLI flags or args, or other sources, use it as-is
+    Match.when(
+      { type: "valid" },
+      ({ value, origin }): Promise<StageHandlingResult<TInputSpec>> =>
+        Promise.resolve({ value, origin }),
     ),
-    // Else if the condition pattern match evaluated to string, print the string
+    // When value is not set, or is invalid, then prompt value from user
     Match.orElse(
-      F.flow(
-        Match.value,
-        Match.when(Match.string, (message) => (print(message), undefined)),
-        Match.orElse(() => undefined),
-      ),
+      async (lookup): Promise<StageHandlingResult<TInputSpec>> =>
+        isInteractive
+          ? F.pipe(
+              await promptValueFromUser<TInputSpec>(
+                prompt,
+                String(valueName),
+                stage,
+                await prompts.resolvePrompt(
+                  String(valueName),
+                  stage,
+                  components,
+                ),
+                context.backAnswer,
+              ),
+              O.match({
+                onNone: (): StageHandlingResult<TInputSpec> => ({
+                  back: true,
+                }),
+                onSome: (value): StageHandlingResult<TInputSpec> => ({
+                  value,
+                  origin: "prompt",
+                }),
+              }),
+            )
+          : // In non-interactive mode, just record the issue instead of prompting
+            {
+              issue: getMissingOrInvalidIssue(
+                context,
+                String(valueName),
+                stage,
+                lookup,
+              ),
+            },
     ),
-    O.fromNullable,
+    O.some,
   );
 };
 
-const getValueFromCLIFlagsOrArgs = <TInputSpec extends inputSpec.InputSpecBase>(
+const getValueFromSources = <TInputSpec extends inputSpec.InputSpecBase>(
+  { printer, valueSources, restStartIndex }: CollectionContext,
   valueName: string,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  schema: S.Schema<any>,
-  flag: AnyFlag | undefined,
+  stage: inputSpec.ValidationSpecBase,
   cliArgs: CLIArgsInfo<TInputSpec>,
-): O.Option<StageValues<TInputSpec>> =>
+): SourceLookupResult =>
   F.pipe(
     Match.value(cliArgs),
     // Current version of @effect/schema has a bug with this
     // So we just use unknown for now and then explicit cast...
-    Match.when(Set.isHashSet, (cliArgsNames: unknown) => {
+    Match.when(Set.isHashSet, (suppliedNames: unknown): SourceLookupResult => {
       if (
         Set.has(
-          cliArgsNames as Set.HashSet<CLIArgsInfoSetElement<TInputSpec>>,
+          suppliedNames as Set.HashSet<CLIArgsInfoSetElement<TInputSpec>>,
           valueName as CLIArgsInfoSetElement<TInputSpec>,
         )
       ) {
-        // The value was specified via CLI, but failed more advanced validation
-        print(
-          chalk.bold.cyanBright(
-            `Not re-using CLI-supplied value for "${valueName}" after error.`,
-          ),
-        );
+        // The value was specified via CLI or other source, but failed more advanced validation
+        printer({
+          kind: "valueNotReused",
+          level: "info",
+          propertyName: valueName,
+        });
       }
-      return O.none<StageValues<TInputSpec> | undefined>();
+      return { type: "none" };
     }),
-    Match.orElse<
-      InternalCLIArgsResult<TInputSpec>,
-      O.Option<StageValues<TInputSpec> | undefined>
-    >(({ flags, input }) =>
-      F.pipe(
-        // Match the value either from flags, or from unnamed CLI args
-        // If we don't use 'any' here, we get error about excessive depth of type instantiation :(
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        Match.value<any>(
-          flag ? flags[valueName as keyof typeof flags] : input[0],
-        ),
-        // If value was specified (is not undefined)
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        Match.not(Match.undefined, (value: any) =>
-          F.pipe(
-            // Is the value adhering to the schema?
-            Match.value(S.is(schema)(value)),
-            // If value adhers to schema, we can use it.
-            // Notify user about this.
-            Match.when(true, () => {
-              // Side-effect: notify user that instead of prompting, the value from CLI will be used
-              print(
-                chalk.italic(
-                  `Using value supplied via CLI for "${valueName}" (${value}).`,
-                ),
-              );
-              // eslint-disable-next-line @typescript-eslint/no-unsafe-return
-              return value as StageValues<TInputSpec>;
-            }),
-            // If value does not adher to schema, we should not use it.
-            // Notify user about this.
-            Match.orElse(() => {
-              // Side-effect: notify that value specified via CLI arg was not valid
-              print(
-                chalk.bold.cyanBright(
-                  `! The value specified as CLI ${
-                    flag ? `parameter "${valueName}"` : "argument"
-                  } was not valid, proceeding to prompt for it.`,
-                ),
-                "warn",
-              );
-              // Continue as if value was not set
-              return undefined;
-            }),
-          ),
+    Match.orElse(
+      (cliArgs: InternalCLIArgsResult<TInputSpec>): SourceLookupResult =>
+        F.pipe(
+          // CLI arguments always have the highest priority
+          [sources.createCLISource(cliArgs, restStartIndex), ...valueSources],
+          // Get the value from first source which has it
+          A.filterMap((source) => source(valueName, stage)),
+          A.head,
+          O.match({
+            // No source specified the value
+            onNone: (): SourceLookupResult => ({ type: "none" }),
+            onSome: ({ value, origin }): SourceLookupResult =>
+              // Can the value be decoded via the schema?
+              // If it can, we use the decoded value, otherwise we should not use it.
+              F.pipe(
+                lists.decode(stage, value, origin),
+                E.match({
+                  onLeft: (rawErrorMessage): SourceLookupResult => {
+                    const errorMessage = secrets.redactMessage(
+                      stage,
+                      rawErrorMessage,
+                      value,
+                    );
+                    // Side-effect: notify user that the value was not valid
+                    printer({
+                      kind: "valueInvalid",
+                      level: "warn",
+                      propertyName: valueName,
+                      value: secrets.redactValue(stage, value),
+                      origin,
+                      errorMessage,
+                    });
+                    return { type: "invalid", value, origin, errorMessage };
+                  },
+                  onRight: (decoded): SourceLookupResult => {
+                    // Side-effect: notify user that instead of prompting, the value from source will be used
+                    printer({
+                      kind: "valueUsed",
+                      level: "info",
+                      propertyName: valueName,
+                      value: secrets.redactValue(stage, value),
+                      origin,
+                    });
+                    return { type: "valid", value: decoded, origin };
+                  },
+                }),
+              ),
+          }),
         ),
-        (matcher): O.Option<StageValues<TInputSpec> | undefined> =>
-          // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-explicit-any
-          Match.option(matcher) as any,
-      ),
     ),
-    // At this point we have O.Option<StageValues | undefined>
-    // And we want to end up with O.Option<StageValues>
-    // So we need to do a little dancing with O.Options (especially since at least for now there is no .chain for any of @effect/data structures.)
-    O.map(O.fromNullable),
-    O.flatten,
   );
 
+// Returns None if user answered with the back answer, in order to go back to previous prompt
 const promptValueFromUser = <TInputSpec extends inputSpec.InputSpecBase>(
-  promptModule: PromptModule,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  schema: S.Schema<any>,
-  prompt: DistinctQuestion,
+  prompt: prompter.Prompter,
+  propertyName: string,
+  stage: inputSpec.ValidationSpecBase,
+  question: DistinctQuestion,
+  backAnswer: string | undefined,
+): Promise<O.Option<StageValues<TInputSpec>>> =>
+  stage.list === undefined
+    ? promptSingleValueFromUser<TInputSpec>(
+        prompt,
+        propertyName,
+        stage,
+        question,
+        backAnswer,
+      )
+    : (promptListFromUser(
+        prompt,
+        propertyName,
+        stage,
+        stage.list,
+        question,
+        backAnswer,
+      ) as Promise<O.Option<StageValues<TInputSpec>>>);
+
+// The items are prompted with their index in property name, so that the attempts are counted per item
+const promptListFromUser = async (
+  prompt: prompter.Prompter,
+  propertyName: string,
+  stage: inputSpec.ValidationSpecBase,
+  { min = 0, max = Number.POSITIVE_INFINITY }: inputSpec.ListSpec,
+  question: DistinctQuestion,
+  backAnswer: string | undefined,
+): Promise<O.Option<Array<unknown>>> => {
+  const items: Array<unknown> = [];
+  while (
+    items.length < max &&
+    (items.length < min ||
+      (await promptAddItem(prompt, propertyName, items.length)))
+  ) {
+    const item = await promptSingleValueFromUser(
+      prompt,
+      `${propertyName}[${items.length}]`,
+      stage,
+      question,
+      backAnswer,
+    );
+    if (O.isNone(item)) {
+      return O.none();
+    }
+    items.push(item.value);
+  }
+  return O.some(items);
+};
+
+// Like the review prompt, this prompt has no property name, so it is not limited by attempts
+const promptAddItem = async (
+  prompt: prompter.Prompter,
+  propertyName: string,
+  count: number,
 ) =>
-  F.pipe(
-    // Construct schema decoder
-    S.decodeEither(schema),
-    // Prompt the value from user, using schema decoder as validator
-    async (decode) =>
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-return
-      (
-        await promptModule<{
-          question: StageValues<TInputSpec>;
-        }>({
-          ...prompt,
-          name: "question",
-          validate: (input) =>
-            // We could use F.flow here, but the signature of decode is not compatible with validate
-            F.pipe(
-              input,
-              // Use decoder to validate input
-              decode,
-              // On success, just return true
-              E.mapRight(constTrue),
-              // On error, return string with nicely formatted error message
-              E.getOrElse(({ errors }) => TF.formatErrors(errors)),
-            ),
-        })
-      ).question,
+  (await prompt(
+    prompter.createPromptRequest(
+      "",
+      {
+        type: "confirm",
+        message: `Add ${
+          count === 0 ? "an item" : "another item"
+        } to "${propertyName}"?`,
+        default: count === 0,
+      },
+      (answer) => typeof answer === "boolean" || "Please answer yes or no.",
+    ),
+  )) === true;
+
+const promptSingleValueFromUser = async <
+  TInputSpec extends inputSpec.InputSpecBase,
+>(
+  prompt: prompter.Prompter,
+  propertyName: string,
+  stage: inputSpec.ValidationSpecBase,
+  question: DistinctQuestion,
+  backAnswer: string | undefined,
+): Promise<O.Option<StageValues<TInputSpec>>> => {
+  const { schema } = stage;
+  const isBack = (answer: unknown) =>
+    backAnswer !== undefined && answer === backAnswer;
+  // Prompt the value from user, using schema decoder as validator
+  const request = prompter.createPromptRequest(
+    propertyName,
+    withBackChoice(question, backAnswer),
+    (input) =>
+      isBack(input) ||
+      F.pipe(
+        input,
+        // Use decoder to validate input
+        (input) => validator.decode(schema, input),
+        // On success, just return true
+        E.mapRight(constTrue),
+        // On error, return string with nicely formatted error message
+        E.getOrElse((errorMessage) =>
+          secrets.redactMessage(stage, errorMessage, input),
+        ),
+      ),
+  );
+  let decoded: E.Either<string, unknown>;
+  do {
+    const answer = await prompt(request);
+    if (isBack(answer)) {
+      return O.none();
+    }
+    // Use the decoded value instead of raw answer, so that transformations of the schema are applied
+    decoded = validator.decode(schema, answer);
+    // Prompt again if prompter returned answer without validating it, e.g. scripted prompter, just like user would type the answer again
+  } while (E.isLeft(decoded));
+  return O.some(decoded.right as StageValues<TInputSpec>);
+};
+
+// The back answer can not be typed to list prompts, so it is offered as the last choice
+const withBackChoice = (
+  question: DistinctQuestion,
+  backAnswer: string | undefined,
+): DistinctQuestion =>
+  backAnswer !== undefined &&
+  (question.type === "list" || question.type === "rawlist") &&
+  Array.isArray(question.choices)
+    ? {
+        ...question,
+        choices: [
+          ...(question.choices as ReadonlyArray<DistinctChoice>),
+          { name: backAnswer, value: backAnswer },
+        ],
+      }
+    : question;
+
+const getMissingOrInvalidIssue = (
+  context: CollectionContext,
+  propertyName: string,
+  stage: inputSpec.ValidationSpecBase,
+  lookup: SourceLookupResult,
+): errors.NonInteractiveInputIssue => {
+  const cliHint = getCLIHint(context, propertyName, stage);
+  return lookup.type === "invalid"
+    ? {
+        kind: "invalid",
+        propertyName,
+        cliHint,
+        value: secrets.redactValue(stage, lookup.value),
+        errorMessage: lookup.errorMessage,
+      }
+    : { kind: "missing", propertyName, cliHint };
+};
+
+const getCLIHint = (
+  { envPrefix, config }: CollectionContext,
+  propertyName: string,
+  stage: inputSpec.ValidationSpecBase,
+) => {
+  const { positional, env } = stage;
+  const flag = flags.getFlag(propertyName, stage);
+  const envVariableName = sources.getEnvVariableName(
+    propertyName,
+    env,
+    envPrefix,
   );
+  const alternatives = [
+    flag
+      ? `--${propertyName}${
+          flag.shortFlag === undefined ? "" : ` (-${flag.shortFlag})`
+        }`
+      : positionals.getPositionText(positional),
+    ...(secrets.isSensitive(stage)
+      ? [`--${flags.getFlagName(secrets.getFileFlagName(propertyName))}`]
+      : []),
+    ...(envVariableName === undefined
+      ? []
+      : [`environment variable "${envVariableName}"`]),
+    ...(config === undefined
+      ? []
+      : [`property "${propertyName}" of configuration file`]),
+  ];
+  return alternatives.length > 1
+    ? `${alternatives.slice(0, -1).join(", ")} or ${alternatives.at(-1)}`
+    : alternatives[0];
+};
+
+const failNonInteractive = (
+  printer: print.Printer,
+  issues: ReadonlyArray<errors.NonInteractiveInputIssue>,
+): never => {
+  printer({ kind: "nonInteractiveReport", level: "error", issues });
+  throw new errors.NonInteractiveInputError(issues);
+};
+
+const failNonInteractiveIfValidationErrors = <
+  TInputSpec extends inputSpec.InputSpecBase,
+  TValidatedInput,
+>(
+  context: CollectionContext,
+  spec: TInputSpec,
+  input: Readonly<Record<string, unknown>>,
+  validationResult: Awaited<
+    ReturnType<InputValidator<TInputSpec, TValidatedInput>>
+  >,
+) => {
+  if (typeof validationResult === "string") {
+    failNonInteractive(context.printer, [
+      { kind: "internal", errorMessage: validationResult },
+    ]);
+  } else if (Array.isArray(validationResult)) {
+    failNonInteractive(
+      context.printer,
+      validationResult.map(([valueName, errorMessage]) => {
+        const propertyName = String(valueName);
+        const stage = spec[propertyName] as
+          | inputSpec.InputSpecProperty<unknown>
+          | undefined;
+        return {
+          kind: "validation",
+          propertyName,
+          cliHint:
+            stage?.type === inputSpec.TYPE_VALIDATE
+              ? getCLIHint(context, propertyName, stage)
+              : "CLI arguments",
+          errorMessage: redactValidationError(
+            spec,
+            propertyName,
+            errorMessage,
+            input,
+          ),
+        };
+      }),
+    );
+  }
+};
+
+// The errors of input validator might quote the value, or values of the group
+const redactValidationError = (
+  spec: inputSpec.InputSpecBase,
+  propertyName: string,
+  errorMessage: string,
+  input: Readonly<Record<string, unknown>>,
+) =>
+  groups
+    .getFlatPropertyNames(spec, propertyName)
+    .reduce(
+      (redacted, flatName) =>
+        secrets.redactMessage(
+          groups.flattenInputSpec(spec)[flatName],
+          redacted,
+          input[flatName],
+        ),
+      errorMessage,
+    );
 
 // The constTrue in @effect/data/Function is of type F.LazyArg<boolean> while here we need F.LazyArg<true>
 const constTrue: F.LazyArg<true> = () => true;
@@ -510,25 +1410,59 @@ type InternalCLIArgsResult<TInputSpec extends inputSpec.InputSpecBase> = Omit<
   flags: Partial<CLIArgsResult<TInputSpec>["flags"]>;
 };
 
+// The names of the properties, values of which were supplied via CLI arguments or other sources
 type CLIArgsInfoSetElement<TInputSpec extends inputSpec.InputSpecBase> =
   | cliArgs.FlagKeys<TInputSpec>
-  | CLIInputsKey<TInputSpec>;
+  | CLIInputsKey<TInputSpec>
+  | SchemaKeys<TInputSpec>;
 
+// The names of the properties, values of which are taken from positional CLI arguments: all the ones without flag, whatever their position is
 type CLIInputsKey<TInputSpec extends inputSpec.InputSpecBase> = {
   [P in keyof TInputSpec]: TInputSpec[P] extends {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    schema: S.Schema<infer _>;
+    schema: validator.SchemaBase;
     flag?: never;
   }
     ? P
     : never;
 }[keyof TInputSpec];
 
-type StageHandlingResult<TInputSpec extends inputSpec.InputSpecBase> = {
-  value: StageValues<TInputSpec>;
-  fromCLI: boolean;
+type StageHandlingResult<TInputSpec extends inputSpec.InputSpecBase> =
+  | {
+      value: StageValues<TInputSpec>;
+      origin: print.CollectedValueOrigin;
+    }
+  | { issue: errors.NonInteractiveInputIssue }
+  | { back: true };
+
+type CollectInputResult<TInputSpec extends inputSpec.InputSpecBase> = {
+  cliArgsSet: Set.HashSet<CLIArgsInfoSetElement<TInputSpec>>;
+  issues: Array<errors.NonInteractiveInputIssue>;
+  origins: Record<string, print.CollectedValueOrigin>;
+  hasPrompted: boolean;
+};
+
+type CollectionContext = {
+  prompter: prompter.Prompter;
+  printer: print.Printer;
+  isInteractive: boolean;
+  review: boolean;
+  backAnswer: string | undefined;
+  maxAttempts: number | undefined;
+  signal: AbortSignal | undefined;
+  envPrefix: string | undefined;
+  config: configFile.ConfigFile | undefined;
+  saveAnswers: string | undefined;
+  invocation: string | undefined;
+  restStartIndex: number;
+  // The sources to consult after CLI arguments
+  valueSources: ReadonlyArray<sources.ValueSource>;
 };
 
+type SourceLookupResult =
+  | { type: "none" }
+  | ({ type: "valid" } & sources.SourceValue)
+  | ({ type: "invalid"; errorMessage: string } & sources.SourceValue);
+
 type SchemasOfStages<TInputSpec extends inputSpec.InputSpecBase> = {
   [P in keyof TInputSpec]: TInputSpec[P] extends inputSpec.ValidationSpec<
     infer _
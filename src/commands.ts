@@ -0,0 +1,393 @@
+/**
+ * @file This file contains code related to CLI programs with subcommands (e.g. `tool init`, `tool add`), each having their own input specification.
+ */
+import meow, { type AnyFlag } from "meow";
+import createCLIArgs, * as cliArgs from "./cli-args";
+import collectInput, * as collect from "./collect-input";
+import type * as inputSpec from "./input-spec";
+import * as errors from "./errors";
+import * as flags from "./flags";
+import { getGlobalPropertyCollisions } from "./validate-input-spec";
+import omitUndefined from "./omit-undefined";
+
+/**
+ * Parses the CLI arguments, using first positional CLI argument as the name of the command, and then collects the input according to the input specification of that command.
+ * The flags of global input specification may be given before the name of the command, e.g. `tool --verbose add`.
+ * The help text is generated for both top level (`tool --help`), listing all the commands, and for each command (`tool add --help`), listing options of that command.
+ *
+ * If the command is not specified or is not recognized, the top-level help text is printed and the process exits with code `2`.
+ * If `autoHelp` is `false`, the {@link errors.UnknownCommandError} is thrown instead.
+ * The input specification of the command must not define properties with same names as global input specification, as that is reported as {@link errors.InvalidInputSpecError}.
+ * @param param0 The {@link CommandsParameters}.
+ * @param param0.commands Privately deconstructed property.
+ * @param param0.globalInputSpec Privately deconstructed property.
+ * @param param0.argv Privately deconstructed property.
+ * @param param0.importMeta Privately deconstructed property.
+ * @param param0.envPrefix Privately deconstructed property.
+ * @param param0.configFile Privately deconstructed property.
+ * @param param0.help Privately deconstructed property.
+ * @param param0.autoHelp Privately deconstructed property.
+ * @param param0.autoVersion Privately deconstructed property.
+ * @param param0.promptModule Privately deconstructed property.
+ * @param param0.prompter Privately deconstructed property.
+ * @param param0.printer Privately deconstructed property.
+ * @param param0.isInteractive Privately deconstructed property.
+ * @param param0.env Privately deconstructed property.
+ * @param param0.config Privately deconstructed property.
+ * @param param0.answers Privately deconstructed property.
+ * @param param0.saveAnswers Privately deconstructed property.
+ * @param param0.review Privately deconstructed property.
+ * @param param0.backAnswer Privately deconstructed property.
+ * @param param0.maxAttempts Privately deconstructed property.
+ * @param param0.maxAttemptsPerProperty Privately deconstructed property.
+ * @param param0.signal Privately deconstructed property.
+ * @param param0.printEquivalentCommand Privately deconstructed property.
+ * @param param0.inputSpecValidation Privately deconstructed property.
+ * @returns Asynchronously returns {@link CommandResult}, telling which command was run, along with its validated input.
+ * @throws The {@link errors.UnknownCommandError} if the command is not specified or is not recognized, and `autoHelp` is `false`, or {@link errors.InvalidInputSpecError} if the input specification of the command collides with global input specification.
+ * @see createCLIArgs
+ * @see collectInput
+ */
+export default async <
+  TCommands extends CommandsBase,
+  TGlobalInputSpec extends inputSpec.InputSpecBase = Record<string, never>,
+>({
+  commands,
+  globalInputSpec,
+  argv: argvParam,
+  importMeta,
+  envPrefix,
+  configFile,
+  help,
+  autoHelp,
+  autoVersion,
+  promptModule,
+  prompter,
+  printer,
+  isInteractive,
+  env,
+  config,
+  answers,
+  saveAnswers,
+  review,
+  backAnswer,
+  maxAttempts,
+  maxAttemptsPerProperty,
+  signal,
+  printEquivalentCommand,
+  inputSpecValidation,
+}: CommandsParameters<TCommands, TGlobalInputSpec>): Promise<
+  CommandResult<TCommands, TGlobalInputSpec>
+> => {
+  const argv = argvParam ?? process.argv.slice(2);
+  const commandIndex = getCommandIndex(argv, globalInputSpec);
+  const commandName = argv[commandIndex];
+  const commandArgv = [
+    ...argv.slice(0, commandIndex),
+    ...argv.slice(commandIndex + 1),
+  ];
+  if (!isCommandName(commands, commandName)) {
+    const helpText = getCommandsHelpText(
+      (await cliArgs.readPackageJson(importMeta)).packageJson.name,
+      commands,
+    );
+    if (autoHelp === false) {
+      throw new errors.UnknownCommandError(commandName, helpText);
+    }
+    // Will exit the process
+    return meow(helpText, {
+      importMeta,
+      argv,
+      autoHelp: true,
+      autoVersion: autoVersion !== false,
+    }).showHelp(2);
+  }
+
+  const command = getCommand(commands, commandName);
+  // The properties of command must not replace the global ones
+  const collisions = getGlobalPropertyCollisions(
+    globalInputSpec ?? {},
+    command.inputSpec,
+  );
+  if (collisions.length > 0) {
+    throw new errors.InvalidInputSpecError(collisions);
+  }
+  const inputSpecOfCommand: inputSpec.InputSpecBase = {
+    ...globalInputSpec,
+    ...command.inputSpec,
+  };
+  const {
+    cliArgs: parsedArgs,
+    packageRoot,
+    isInteractive: isInteractiveFromCLI,
+    config: configFromCLI,
+    answers: answersFromCLI,
+    saveAnswers: saveAnswersFromCLI,
+    invocation,
+  } = await createCLIArgs({
+    importMeta,
+    inputSpec: inputSpecOfCommand,
+    argv: commandArgv,
+    commandName,
+    ...omitUndefined({
+      envPrefix,
+      configFile,
+      help,
+      autoHelp,
+      autoVersion,
+      env,
+    }),
+    inputSpecValidation:
+      inputSpecValidation === false
+        ? inputSpecValidation
+        : {
+            ...inputSpecValidation,
+            getDynamicValueInput: command.getDynamicValueInput,
+          },
+  });
+  let globalInput: collect.InputFromCLIOrUser<TGlobalInputSpec> = {};
+  const validatedInput = await collectInput(inputSpecOfCommand)({
+    cliArgs: parsedArgs,
+    isInteractive: isInteractive ?? isInteractiveFromCLI,
+    ...omitUndefined({
+      envPrefix,
+      promptModule,
+      prompter,
+      printer,
+      env,
+      review,
+      backAnswer,
+      maxAttempts,
+      maxAttemptsPerProperty,
+      signal,
+      config: config ?? configFromCLI,
+      answers: answers ?? answersFromCLI,
+      saveAnswers: saveAnswers ?? saveAnswersFromCLI,
+    }),
+    ...(printEquivalentCommand === true ? { invocation } : {}),
+    getDynamicValueInput: command.getDynamicValueInput,
+    inputValidator: (input) => {
+      // Remember the values of global input specification, as the validator of the command is not aware of those
+      globalInput = Object.fromEntries(
+        Object.entries(input).filter(
+          ([key]) =>
+            globalInputSpec !== undefined &&
+            Object.prototype.hasOwnProperty.call(globalInputSpec, key),
+        ),
+      ) as collect.InputFromCLIOrUser<TGlobalInputSpec>;
+      return command.inputValidator(input);
+    },
+  });
+  return {
+    command: commandName,
+    validatedInput,
+    globalInput,
+    packageRoot,
+    help: parsedArgs.help,
+  };
+};
+
+/**
+ * Helper function to define {@link CommandSpec} with proper type inference for validated input of the command.
+ * @param spec The {@link CommandSpec}.
+ * @returns The given `spec`, as-is.
+ * @example
+ * ```ts
+ * const commands = {
+ *   init: mi.defineCommand({
+ *     description: "Initialize new project",
+ *     inputSpec: initInputSpec,
+ *     getDynamicValueInput: () => undefined,
+ *     inputValidator: (input) => Promise.resolve(input),
+ *   }),
+ *   add: mi.defineCommand({ ... }),
+ * };
+ * const result = await mi.createCommandsAndCollectInput({ importMeta: import.meta, commands });
+ * switch (result.command) {
+ *   case "init":
+ *     // result.validatedInput is now typed according to validator of "init" command
+ * }
+ * ```
+ */
+export const defineCommand = <
+  TInputSpec extends inputSpec.InputSpecBase,
+  TValidatedInput,
+>(
+  spec: CommandSpec<TInputSpec, TValidatedInput>,
+) => spec;
+
+/**
+ * This interface represents specification of single subcommand.
+ * Use {@link defineCommand} to get proper type inference.
+ */
+export interface CommandSpec<
+  TInputSpec extends inputSpec.InputSpecBase,
+  TValidatedInput,
+> {
+  /**
+   * The description of the command, shown in top-level help text.
+   */
+  description: string;
+  /**
+   * The input specification of the command.
+   * @see inputSpec.InputSpec
+   */
+  inputSpec: TInputSpec;
+  /**
+   * The callback to perform final validation of the input of this command.
+   * @see collect.InputValidator
+   */
+  inputValidator: collect.InputValidator<TInputSpec, TValidatedInput>;
+  /**
+   * The callback to get dynamic value input for the input specification of this command.
+   * @see collect.GetDynamicValueArg
+   */
+  getDynamicValueInput: collect.GetDynamicValueArg<TInputSpec>;
+}
+
+/**
+ * This type defines a base type for {@link CommandSpec}.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type CommandSpecBase = CommandSpec<any, any>;
+
+/**
+ * This type defines a base type for all the commands, keys being the names of the commands.
+ */
+export type CommandsBase = Record<string, CommandSpecBase>;
+
+/**
+ * This type represents the parameters of function which parses CLI arguments with subcommands, and collects the input for the command.
+ */
+export type CommandsParameters<
+  TCommands extends CommandsBase,
+  TGlobalInputSpec extends inputSpec.InputSpecBase,
+> = Omit<
+  cliArgs.GetCLIArgsParameters<TGlobalInputSpec>,
+  "inputSpec" | "commandName"
+> &
+  Omit<
+    collect.BuildValidatedInputParameters<TGlobalInputSpec, unknown>,
+    "cliArgs" | "inputValidator" | "getDynamicValueInput" | "invocation"
+  > & {
+    /**
+     * Set this to `true` to print the command line which reproduces the collected input without prompting, if some of the values were prompted from user.
+     */
+    printEquivalentCommand?: boolean;
+    /**
+     * The commands, keys being the names of the commands.
+     */
+    commands: TCommands;
+    /**
+     * The optional input specification, which is shared by all the commands, e.g. for global flags.
+     * Its properties are merged to input specification of each command, and their values are returned in {@link CommandResult.globalInput}.
+     */
+    globalInputSpec?: TGlobalInputSpec;
+  };
+
+/**
+ * This type represents the result of parsing CLI arguments with subcommands, and collecting the input for the command which was run.
+ * It is discriminated union, with `command` property as discriminator.
+ */
+export type CommandResult<
+  TCommands extends CommandsBase,
+  TGlobalInputSpec extends inputSpec.InputSpecBase,
+> = {
+  [P in keyof TCommands & string]: {
+    /**
+     * The name of the command which was run.
+     */
+    command: P;
+    /**
+     * The validated input of the command.
+     */
+    validatedInput: ValidatedInputOf<TCommands[P]>;
+    /**
+     * The values of the properties of global input specification.
+     */
+    globalInput: collect.InputFromCLIOrUser<TGlobalInputSpec>;
+    /**
+     * The root path of the package which invoked this library.
+     */
+    packageRoot: string;
+    /**
+     * The help text of the command, e.g. to show it when `autoHelp` is disabled.
+     */
+    help: string;
+  };
+}[keyof TCommands & string];
+
+// The validated input of given command, as deduced by defineCommand
+type ValidatedInputOf<TCommand> = TCommand extends CommandSpec<
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  infer _,
+  infer TValidatedInput
+>
+  ? TValidatedInput
+  : never;
+
+// The CommandsBase must use any, as input validators of commands are contravariant in their input specifications
+// So this is the only place where the command is given its own validated input type
+const getCommand = <
+  TCommands extends CommandsBase,
+  TCommandName extends keyof TCommands & string,
+>(
+  commands: TCommands,
+  commandName: TCommandName,
+): CommandSpec<
+  inputSpec.InputSpecBase,
+  ValidatedInputOf<TCommands[TCommandName]>
+> => {
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-return
+  return commands[commandName];
+};
+
+const isCommandName = <TCommands extends CommandsBase>(
+  commands: TCommands,
+  commandName: string | undefined,
+): commandName is keyof TCommands & string =>
+  commandName !== undefined &&
+  Object.prototype.hasOwnProperty.call(commands, commandName);
+
+// Skips the leading flags, along with the values of the global flags which take one
+const getCommandIndex = (
+  argv: ReadonlyArray<string>,
+  globalInputSpec: inputSpec.InputSpecBase | undefined,
+) => {
+  const globalFlags: Record<string, AnyFlag> = {
+    ...cliArgs.getFlags(globalInputSpec ?? {}),
+    [cliArgs.FLAG_CONFIG]: { type: "string" },
+    [cliArgs.FLAG_ANSWERS]: { type: "string" },
+    [cliArgs.FLAG_SAVE_ANSWERS]: { type: "string" },
+  };
+  const valueFlags = new Set(
+    Object.entries(globalFlags).flatMap(
+      ([flagName, { type, shortFlag, aliases }]) =>
+        type === "boolean"
+          ? []
+          : [
+              `--${flags.getFlagName(flagName)}`,
+              ...(shortFlag === undefined ? [] : [`-${shortFlag}`]),
+              ...(aliases ?? []).map(
+                (alias) => `--${flags.getFlagName(alias)}`,
+              ),
+            ],
+    ),
+  );
+  let index = 0;
+  while (index < argv.length && argv[index].startsWith("-")) {
+    index += valueFlags.has(argv[index]) ? 2 : 1;
+  }
+  return index;
+};
+
+const getCommandsHelpText = (packageName: string, commands: CommandsBase) => `
+  Usage: npx ${packageName}@latest <command> [options...]
+
+  Commands:
+    ${Object.entries(commands)
+      .map(([name, { description }]) => `${name}\t${description}`)
+      .join("\n    ")}
+
+  Run "npx ${packageName}@latest <command> --help" to see the options of the command.
+`;
@@ -0,0 +1,107 @@
+/**
+ * @file This file contains code related to discovering and reading configuration file, values of which are used as a source when collecting input.
+ */
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+/**
+ * This interface represents the contents of the configuration file, along with its path.
+ */
+export interface ConfigFile {
+  /**
+   * The absolute path of the configuration file.
+   */
+  filePath: string;
+  /**
+   * The values of the configuration file, keys being names of the properties of input specification.
+   */
+  values: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * This interface contains options related to discovering and reading configuration file.
+ */
+export interface ConfigFileOptions {
+  /**
+   * The directory where to discover configuration file, and against which to resolve relative path given via `--config` flag.
+   * By default, uses current working directory.
+   */
+  cwd?: string;
+  /**
+   * The file names to try, in order, when looking for configuration file in `cwd`.
+   * Use empty array to disable discovery, leaving `--config` flag as only way to specify the configuration file.
+   * By default, uses result of {@link getDefaultConfigFileNames}.
+   */
+  fileNames?: ReadonlyArray<string>;
+  /**
+   * The callback to parse the contents of the configuration file, e.g. to support YAML files.
+   * By default, the contents are parsed as JSON.
+   */
+  parse?: (contents: string, filePath: string) => unknown;
+}
+
+/**
+ * Gets the default file names used when discovering configuration file: `.<name>rc`, `.<name>rc.json`, and `<name>.config.json`.
+ * The scope of the package name, if any, is stripped away.
+ * @param packageName The name of the package.
+ * @returns The default file names used when discovering configuration file.
+ */
+export const getDefaultConfigFileNames = (packageName: string) => {
+  const name = packageName.replace(/^@[^/]+\//, "");
+  return [`.${name}rc`, `.${name}rc.json`, `${name}.config.json`];
+};
+
+/**
+ * Reads the configuration file from explicitly given path, or discovers it from given directory.
+ * @param explicitPath The explicitly given path, e.g. via `--config` CLI flag.
+ * @param cwd The directory where to discover configuration file, and against which to resolve relative `explicitPath`.
+ * @param fileNames The file names to try, in order, when discovering configuration file.
+ * @param parse The callback to parse the contents of the configuration file.
+ * @returns Asynchronously returns {@link ConfigFile}, or `undefined` if no explicit path was given, and no file was discovered.
+ * @throws If reading explicitly given file fails, or if parsed contents of the file are not an object.
+ */
+export const readConfigFile = async (
+  explicitPath: string | undefined,
+  cwd: string,
+  fileNames: ReadonlyArray<string>,
+  parse: Required<ConfigFileOptions>["parse"] = (contents) =>
+    JSON.parse(contents),
+): Promise<ConfigFile | undefined> => {
+  const found =
+    explicitPath === undefined
+      ? await discoverConfigFile(cwd, fileNames)
+      : await readFile(path.resolve(cwd, explicitPath));
+  if (found === undefined) {
+    return undefined;
+  }
+  const { filePath, contents } = found;
+  const values = parse(contents, filePath);
+  if (typeof values !== "object" || values === null || Array.isArray(values)) {
+    throw new Error(
+      `The configuration file "${filePath}" must contain an object.`,
+    );
+  }
+  return { filePath, values: values as ConfigFile["values"] };
+};
+
+const discoverConfigFile = async (
+  cwd: string,
+  fileNames: ReadonlyArray<string>,
+) => {
+  for (const fileName of fileNames) {
+    const filePath = path.resolve(cwd, fileName);
+    try {
+      return await readFile(filePath);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw e;
+      }
+    }
+  }
+  return undefined;
+};
+
+const readFile = async (filePath: string) => ({
+  filePath,
+  contents: await fs.readFile(filePath, "utf8"),
+});
@@ -0,0 +1,117 @@
+/**
+ * @file This file contains code related to constructing the command line which reproduces the collected input without prompting.
+ */
+import type { AnyFlag } from "meow";
+import * as inputSpec from "./input-spec";
+import * as flags from "./flags";
+import * as positionals from "./positionals";
+import * as answers from "./answers";
+import * as groups from "./groups";
+import * as lists from "./lists";
+
+/**
+ * Constructs the command line which would reproduce the given input without prompting.
+ * The flagged properties are given as flags, and the rest as positional arguments.
+ * The values are encoded via the schemas of the properties, and quoted for POSIX shells when needed.
+ * The values of sensitive properties are omitted, so they need to be supplied separately, e.g. via environment variable or file flag.
+ * The positional arguments are omitted starting from the first missing positional value, as the following values can not be given at their positions.
+ * @param invocation The command used to invoke the program, e.g. `npx my-package@latest`.
+ * @param nestedSpec The input specification.
+ * @param input The collected input, see `InputFromCLIOrUser` type.
+ * @returns The command line, which also contains `--no-interactive` flag.
+ * @example
+ * ```ts
+ * getEquivalentCommand("npx my-tool@latest", inputSpec, { folderName: "./my project", packageManager: "yarn" });
+ * // "npx my-tool@latest --package-manager yarn --no-interactive './my project'"
+ * ```
+ */
+export default (
+  invocation: string,
+  nestedSpec: inputSpec.InputSpecBase,
+  input: Readonly<Record<string, unknown>>,
+) => {
+  // The properties of groups are given by their prefixed flags
+  const spec = groups.flattenInputSpec(nestedSpec);
+  const encoded = answers.encodeAnswers(
+    spec,
+    groups.flattenInput(nestedSpec, input),
+  );
+  const flagArgs = Object.entries(encoded).flatMap(([propertyName, value]) => {
+    const stage = spec[propertyName] as inputSpec.ValidationSpecBase;
+    const flag = flags.getFlag(propertyName, stage);
+    return flag === undefined
+      ? []
+      : getFlagArgs(propertyName, stage, flag, value);
+  });
+  return [
+    invocation,
+    ...flagArgs.map(quote),
+    "--no-interactive",
+    ...getPositionalArgs(spec, encoded).map(quote),
+  ].join(" ");
+};
+
+const getFlagArgs = (
+  propertyName: string,
+  stage: inputSpec.ValidationSpecBase,
+  { type, isMultiple }: AnyFlag,
+  value: unknown,
+) => {
+  const flagName = flags.getFlagName(propertyName);
+  return (isMultiple && Array.isArray(value) ? value : [value]).flatMap(
+    (item: unknown) =>
+      type === "boolean"
+        ? [item === false ? `--no-${flagName}` : `--${flagName}`]
+        : [`--${flagName}`, toItemArgument(stage, item)],
+  );
+};
+
+const getPositionalArgs = (
+  spec: inputSpec.InputSpecBase,
+  encoded: Readonly<Record<string, unknown>>,
+) => {
+  const args: Array<string> = [];
+  for (const { propertyName, position } of positionals.getPositionals(spec)) {
+    // Stop at the first gap caused by missing value (e.g. skipped by condition), as the following values would end up at wrong positions
+    if (
+      !Object.prototype.hasOwnProperty.call(encoded, propertyName) ||
+      args.length !==
+        (position === inputSpec.POSITIONAL_REST
+          ? positionals.getRestStartIndex(spec)
+          : position)
+    ) {
+      break;
+    }
+    const stage = spec[propertyName] as inputSpec.ValidationSpecBase;
+    const value = encoded[propertyName];
+    args.push(
+      ...(position === inputSpec.POSITIONAL_REST
+        ? (Array.isArray(value) ? value : [value]).map((item: unknown) =>
+            toItemArgument(stage, item),
+          )
+        : [toPositionalArgument(stage, value)]),
+    );
+  }
+  return args;
+};
+
+// The items of list are given as comma-separated values
+const toPositionalArgument = (
+  stage: inputSpec.ValidationSpecBase,
+  value: unknown,
+) =>
+  stage.list !== undefined && Array.isArray(value)
+    ? value.map((item: unknown) => toItemArgument(stage, item)).join(",")
+    : toArgument(value);
+
+// The commas within the items of list must be escaped, as the items are split by commas when parsed
+const toItemArgument = (stage: inputSpec.ValidationSpecBase, item: unknown) =>
+  stage.list === undefined
+    ? toArgument(item)
+    : lists.escapeItem(toArgument(item));
+
+const toArgument = (value: unknown) =>
+  typeof value === "string" ? value : JSON.stringify(value) ?? String(value);
+
+const quote = (arg: string) =>
+  /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
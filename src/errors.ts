@@ -0,0 +1,392 @@
+/**
+ * @file This file contains error classes thrown by this library, along with the types describing their details.
+ */
+
+/**
+ * This error is thrown when input collection is performed in non-interactive mode, and some of the properties are missing or invalid.
+ * The error is thrown only after all the properties have been processed, so that all the problems are reported at once.
+ * @see NonInteractiveInputIssue
+ */
+export class NonInteractiveInputError extends Error {
+  /**
+   * Creates new instance of this error.
+   * @param issues All the issues encountered during non-interactive input collection.
+   */
+  public constructor(
+    public readonly issues: ReadonlyArray<NonInteractiveInputIssue>,
+  ) {
+    super(getNonInteractiveReport(issues));
+    this.name = "NonInteractiveInputError";
+  }
+}
+
+/**
+ * This type is union of all the issues that can be encountered during non-interactive input collection.
+ * The `kind` property acts as discriminator.
+ */
+export type NonInteractiveInputIssue =
+  | NonInteractiveInputIssueMissing
+  | NonInteractiveInputIssueInvalid
+  | NonInteractiveInputIssueValidation
+  | NonInteractiveInputIssueInternal;
+
+/**
+ * This interface contains properties common for all {@link NonInteractiveInputIssue}s related to certain property of input specification.
+ */
+export interface NonInteractiveInputIssueWithProperty<TKind extends string> {
+  /**
+   * The discriminating type union -property which identifies the type of the issue.
+   */
+  kind: TKind;
+  /**
+   * The name of the property of input specification that this issue relates to.
+   */
+  propertyName: string;
+  /**
+   * The textual description on how to pass the value for the property via CLI, e.g. `--flag (-f)`.
+   */
+  cliHint: string;
+}
+
+/**
+ * This issue is reported when value for property was not supplied.
+ */
+export type NonInteractiveInputIssueMissing =
+  NonInteractiveInputIssueWithProperty<"missing">;
+
+/**
+ * This issue is reported when value for property was supplied, but it did not pass the schema validation.
+ */
+export interface NonInteractiveInputIssueInvalid
+  extends NonInteractiveInputIssueWithProperty<"invalid"> {
+  /**
+   * The supplied value.
+   */
+  value: unknown;
+  /**
+   * The formatted validation error message.
+   */
+  errorMessage: string;
+}
+
+/**
+ * This issue is reported when the final input validator rejected the value of property.
+ */
+export interface NonInteractiveInputIssueValidation
+  extends NonInteractiveInputIssueWithProperty<"validation"> {
+  /**
+   * The error message returned by the final input validator.
+   */
+  errorMessage: string;
+}
+
+/**
+ * This issue is reported when the final input validator returned internal error.
+ */
+export interface NonInteractiveInputIssueInternal {
+  /**
+   * The discriminating type union -property which identifies the type of the issue.
+   */
+  kind: "internal";
+  /**
+   * The error message returned by the final input validator.
+   */
+  errorMessage: string;
+}
+
+/**
+ * Creates the human-readable report of given {@link NonInteractiveInputIssue}s, listing which CLI arguments to pass.
+ * @param issues The {@link NonInteractiveInputIssue}s.
+ * @returns The textual report of the issues.
+ */
+export const getNonInteractiveReport = (
+  issues: ReadonlyArray<NonInteractiveInputIssue>,
+) =>
+  `Input could not be collected in non-interactive mode:\n${issues
+    .map((issue) => `  - ${getIssueText(issue)}`)
+    .join("\n")}`;
+
+const getIssueText = (issue: NonInteractiveInputIssue) => {
+  switch (issue.kind) {
+    case "missing":
+      return `Value for "${issue.propertyName}" is missing, pass it via ${issue.cliHint}.`;
+    case "invalid":
+      return `Value for "${issue.propertyName}" (${
+        issue.value
+      }) is invalid, pass valid value via ${issue.cliHint}:\n${indent(
+        issue.errorMessage,
+      )}`;
+    case "validation":
+      return `Value for "${
+        issue.propertyName
+      }" was rejected, pass valid value via ${issue.cliHint}:\n${indent(
+        issue.errorMessage,
+      )}`;
+    case "internal":
+      return `Internal error: ${issue.errorMessage}`;
+  }
+};
+
+const indent = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => `      ${line}`)
+    .join("\n");
+
+/**
+ * This error is thrown when the input specification itself contains definition mistakes, e.g. duplicate short flags.
+ * @see InputSpecDiagnostic
+ */
+export class InvalidInputSpecError extends Error {
+  /**
+   * Creates new instance of this error.
+   * @param diagnostics All the mistakes found in input specification.
+   */
+  public constructor(
+    public readonly diagnostics: ReadonlyArray<InputSpecDiagnostic>,
+  ) {
+    super(getInputSpecReport(diagnostics));
+    this.name = "InvalidInputSpecError";
+  }
+}
+
+/**
+ * This type is union of all the mistakes which can be found in input specification.
+ * The `kind` property acts as discriminator.
+ */
+export type InputSpecDiagnostic =
+  | InputSpecDiagnosticDuplicate<"duplicatePropertyName", string>
+  | InputSpecDiagnosticDuplicate<"duplicateShortFlag", string>
+  | InputSpecDiagnosticDuplicate<"duplicateFlagName", string>
+  | InputSpecDiagnosticDuplicate<"duplicateOrderNumber", number>
+  | InputSpecDiagnosticDuplicate<"duplicatePosition", number | "rest">
+  | InputSpecDiagnosticReservedFlag
+  | InputSpecDiagnosticIncompatibleFlag
+  | InputSpecDiagnosticMissingDynamicValue
+  | InputSpecDiagnosticGlobalPropertyCollision;
+
+/**
+ * This diagnostic is reported when several properties of input specification share the same value, which should be unique.
+ */
+export interface InputSpecDiagnosticDuplicate<TKind extends string, TValue> {
+  /**
+   * The discriminating type union -property which identifies the type of the diagnostic.
+   */
+  kind: TKind;
+  /**
+   * The value shared by several properties, e.g. the short flag.
+   */
+  value: TValue;
+  /**
+   * The names of the properties of input specification sharing the same value.
+   */
+  propertyNames: ReadonlyArray<string>;
+}
+
+/**
+ * This interface contains properties common for all {@link InputSpecDiagnostic}s related to single property of input specification.
+ */
+export interface InputSpecDiagnosticWithProperty<TKind extends string> {
+  /**
+   * The discriminating type union -property which identifies the type of the diagnostic.
+   */
+  kind: TKind;
+  /**
+   * The name of the property of input specification that this diagnostic relates to.
+   */
+  propertyName: string;
+}
+
+/**
+ * This diagnostic is reported when the name or alias of the flag collides with flag reserved by `meow` or this library, e.g. `help`.
+ */
+export interface InputSpecDiagnosticReservedFlag
+  extends InputSpecDiagnosticWithProperty<"reservedFlag"> {
+  /**
+   * The name of the reserved flag.
+   */
+  flagName: string;
+}
+
+/**
+ * This diagnostic is reported when explicit `meow` flag definition is not compatible with the schema of the property.
+ */
+export interface InputSpecDiagnosticIncompatibleFlag
+  extends InputSpecDiagnosticWithProperty<"incompatibleFlag"> {
+  /**
+   * The description of the incompatibility.
+   */
+  errorMessage: string;
+}
+
+/**
+ * This diagnostic is reported when the property needs dynamic value input (e.g. for its `condition`), but it is processed before the dynamic value input is available.
+ */
+export type InputSpecDiagnosticMissingDynamicValue =
+  InputSpecDiagnosticWithProperty<"missingDynamicValue">;
+
+/**
+ * This diagnostic is reported when the input specification of command defines a property with same name as global input specification.
+ */
+export type InputSpecDiagnosticGlobalPropertyCollision =
+  InputSpecDiagnosticWithProperty<"globalPropertyCollision">;
+
+/**
+ * Creates the human-readable report of given {@link InputSpecDiagnostic}s.
+ * @param diagnostics The {@link InputSpecDiagnostic}s.
+ * @returns The textual report of the diagnostics.
+ */
+export const getInputSpecReport = (
+  diagnostics: ReadonlyArray<InputSpecDiagnostic>,
+) =>
+  `The input specification is invalid:\n${diagnostics
+    .map((diagnostic) => `  - ${getDiagnosticText(diagnostic)}`)
+    .join("\n")}`;
+
+const getDiagnosticText = (diagnostic: InputSpecDiagnostic) => {
+  switch (diagnostic.kind) {
+    case "duplicatePropertyName":
+      return `Property "${
+        diagnostic.value
+      }" is produced by ${getPropertyNamesText(
+        diagnostic.propertyNames,
+      )}, once the groups are flattened.`;
+    case "duplicateShortFlag":
+      return `Short flag "-${
+        diagnostic.value
+      }" is used by ${getPropertyNamesText(diagnostic.propertyNames)}.`;
+    case "duplicateFlagName":
+      return `Flag "--${diagnostic.value}" is used by ${getPropertyNamesText(
+        diagnostic.propertyNames,
+      )}.`;
+    case "duplicateOrderNumber":
+      return `Order number ${
+        diagnostic.value
+      } is used by ${getPropertyNamesText(
+        diagnostic.propertyNames,
+      )}, making their order ambiguous.`;
+    case "duplicatePosition":
+      return `Positional argument ${
+        diagnostic.value === "rest" ? "rest" : `#${diagnostic.value + 1}`
+      } is used by ${getPropertyNamesText(diagnostic.propertyNames)}.`;
+    case "reservedFlag":
+      return `Flag "--${diagnostic.flagName}" of "${diagnostic.propertyName}" is reserved.`;
+    case "incompatibleFlag":
+      return diagnostic.errorMessage;
+    case "missingDynamicValue":
+      return `The "${diagnostic.propertyName}" needs dynamic value input, but it is not available at that point.`;
+    case "globalPropertyCollision":
+      return `The "${diagnostic.propertyName}" is already defined by global input specification.`;
+  }
+};
+
+const getPropertyNamesText = (propertyNames: ReadonlyArray<string>) =>
+  propertyNames.map((name) => `"${name}"`).join(", ");
+
+/**
+ * This error is thrown when interactive input collection stops before the input passes final validation, either because it was cancelled, or because the maximum number of attempts was exceeded.
+ * The values collected so far are available as `partialInput`, e.g. to clean up based on them before exiting.
+ * @see InputCollectionStopReason
+ */
+export class InputCollectionStoppedError extends Error {
+  /**
+   * Creates new instance of this error.
+   * @param reason The {@link InputCollectionStopReason}.
+   * @param partialInput The values collected so far, not yet validated by final input validator.
+   */
+  public constructor(
+    public readonly reason: InputCollectionStopReason,
+    public readonly partialInput: Readonly<Record<string, unknown>>,
+  ) {
+    super(getStopReasonText(reason));
+    this.name = "InputCollectionStoppedError";
+  }
+}
+
+/**
+ * This type is union of all the reasons why input collection can stop before completion.
+ * The `kind` property acts as discriminator.
+ */
+export type InputCollectionStopReason =
+  | InputCollectionStopReasonCancelled
+  | InputCollectionStopReasonPropertyAttempts
+  | InputCollectionStopReasonTotalAttempts;
+
+/**
+ * This reason is used when input collection was cancelled via `AbortSignal`, or when user force closed the prompt, e.g. by pressing Ctrl-C.
+ */
+export interface InputCollectionStopReasonCancelled {
+  /**
+   * The discriminating type union -property which identifies the type of the reason.
+   */
+  kind: "cancelled";
+  /**
+   * The reason of `AbortSignal`, or the error thrown by the prompt library.
+   */
+  cause: unknown;
+}
+
+/**
+ * This reason is used when value of single property was about to be prompted more times than allowed.
+ */
+export interface InputCollectionStopReasonPropertyAttempts {
+  /**
+   * The discriminating type union -property which identifies the type of the reason.
+   */
+  kind: "propertyAttemptsExceeded";
+  /**
+   * The name of the property of input specification.
+   */
+  propertyName: string;
+  /**
+   * The maximum number of attempts allowed for single property.
+   */
+  maxAttempts: number;
+}
+
+/**
+ * This reason is used when the collected input was rejected by final input validator more times than allowed.
+ */
+export interface InputCollectionStopReasonTotalAttempts {
+  /**
+   * The discriminating type union -property which identifies the type of the reason.
+   */
+  kind: "attemptsExceeded";
+  /**
+   * The maximum number of attempts allowed for whole input.
+   */
+  maxAttempts: number;
+}
+
+const getStopReasonText = (reason: InputCollectionStopReason) => {
+  switch (reason.kind) {
+    case "cancelled":
+      return "Input collection was cancelled.";
+    case "propertyAttemptsExceeded":
+      return `Value for "${reason.propertyName}" was not given in ${reason.maxAttempts} attempt(s).`;
+    case "attemptsExceeded":
+      return `Valid input was not given in ${reason.maxAttempts} attempt(s).`;
+  }
+};
+
+/**
+ * This error is thrown when the command given on command line is missing or not recognized, and `autoHelp` is disabled so that the process is not exited.
+ */
+export class UnknownCommandError extends Error {
+  /**
+   * Creates new instance of this error.
+   * @param commandName The name of the command given on command line, or `undefined` if it was not given.
+   * @param help The top-level help text, listing all the commands.
+   */
+  public constructor(
+    public readonly commandName: string | undefined,
+    public readonly help: string,
+  ) {
+    super(
+      commandName === undefined
+        ? "The command was not specified."
+        : `The command "${commandName}" is not recognized.`,
+    );
+    this.name = "UnknownCommandError";
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * @file This file contains code related to deducing `meow` flag definitions from the schema of the property of input specification.
+ */
+import type { AnyFlag } from "meow";
+import type * as S from "@effect/schema/Schema";
+import * as O from "@effect/data/Option";
+import type * as AST from "@effect/schema/AST";
+import type * as inputSpec from "./input-spec";
+import * as validator from "./validator-adapter";
+
+/**
+ * Gets the `meow` flag definition for given property of input specification.
+ * If the `flag` is shorthand, the type of the flag is deduced from the schema of the property, or is `string` if the schema is not `@effect/schema` schema.
+ * For list-valued properties, the flag is always multiple `string` flag, as the items can also be given as comma-separated values.
+ * If the `flag` is explicit `meow` flag definition, it is checked to be compatible with the schema of the property.
+ * @param propertyName The name of the property of input specification.
+ * @param spec The {@link inputSpec.ValidationSpec}.
+ * @param spec.flag Privately deconstructed property.
+ * @param spec.schema Privately deconstructed property.
+ * @param spec.list Privately deconstructed property.
+ * @returns The `meow` flag definition, or `undefined` if the property does not take its value from CLI flag.
+ * @throws If explicit `meow` flag definition is not compatible with the schema of the property.
+ */
+export const getFlag = (
+  propertyName: string,
+  { flag, schema, list }: inputSpec.ValidationSpecBase,
+): AnyFlag | undefined => {
+  if (flag === undefined) {
+    return undefined;
+  }
+  const inferred =
+    list === undefined
+      ? O.getOrUndefined(
+          O.flatMapNullable(validator.getAST(schema), inferFlagType),
+        )
+      : LIST_FLAG_TYPE;
+  if (typeof flag === "object") {
+    if (
+      inferred !== undefined &&
+      ((flag.type ?? "string") !== inferred.type ||
+        (flag.isMultiple ?? false) !== inferred.isMultiple)
+    ) {
+      throw new Error(
+        `The flag of property "${propertyName}" is ${getFlagTypeText(
+          flag,
+        )}, but its schema expects ${getFlagTypeText(inferred)}.`,
+      );
+    }
+    return flag;
+  }
+  return {
+    type: inferred?.type ?? "string",
+    ...(inferred?.isMultiple ? { isMultiple: true } : {}),
+    ...(flag === true ? {} : { shortFlag: flag }),
+  } as AnyFlag;
+};
+
+/**
+ * Gets the name of the CLI flag, as it is given on command line, e.g. `package-manager` for property `packageManager`.
+ * @param propertyName The name of the property of input specification, or the alias of the flag.
+ * @returns The kebab-cased name of the CLI flag.
+ */
+export const getFlagName = (propertyName: string) =>
+  propertyName.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+
+/**
+ * This type represents the `meow` flag definition deduced from the type of the value that the schema accepts as input.
+ */
+export type InferredFlag<TFrom> = [NonNullable<TFrom>] extends [boolean]
+  ? { type: "boolean" }
+  : [NonNullable<TFrom>] extends [number]
+  ? { type: "number" }
+  : [NonNullable<TFrom>] extends [ReadonlyArray<infer TElement>]
+  ? InferredFlag<TElement> & { isMultiple: true }
+  : { type: "string" };
+
+/**
+ * This type represents the `meow` flag definition of property of input specification, either as explicitly specified, or as deduced from its schema.
+ */
+export type FlagOf<TSpec> = TSpec extends { flag: AnyFlag }
+  ? TSpec["flag"]
+  : TSpec extends { flag: inputSpec.FlagShorthand; list: inputSpec.ListSpec }
+  ? { type: "string"; isMultiple: true }
+  : TSpec extends { flag: inputSpec.FlagShorthand; schema: infer TSchema }
+  ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    TSchema extends validator.AdaptedSchema<any, any>
+    ? // The flag type can not be deduced from schemas of other validation libraries
+      { type: "string" }
+    : // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    TSchema extends S.Schema<infer TFrom, infer _>
+    ? InferredFlag<TFrom>
+    : never
+  : never;
+
+type FlagType = NonNullable<AnyFlag["type"]>;
+
+interface InferredFlagType {
+  type: FlagType;
+  isMultiple: boolean;
+}
+
+const LIST_FLAG_TYPE: InferredFlagType = { type: "string", isMultiple: true };
+
+const inferFlagType = (ast: AST.AST): InferredFlagType | undefined => {
+  switch (ast._tag) {
+    case "Refinement":
+    case "Transform":
+      // The CLI argument is given as the "from" side of the schema
+      return inferFlagType(ast.from);
+    case "StringKeyword":
+    case "TemplateLiteral":
+      return singleFlagType("string");
+    case "NumberKeyword":
+      return singleFlagType("number");
+    case "BooleanKeyword":
+      return singleFlagType("boolean");
+    case "Literal":
+      return literalFlagType(ast.literal);
+    case "Enums":
+      return combineFlagTypes(
+        ast.enums.map(([, value]) => literalFlagType(value)),
+      );
+    case "Union":
+      return combineFlagTypes(
+        ast.types
+          .filter(
+            ({ _tag }) => _tag !== "UndefinedKeyword" && _tag !== "VoidKeyword",
+          )
+          .map(inferFlagType),
+      );
+    case "Tuple":
+      return tupleFlagType(ast);
+    default:
+      // Can not deduce the flag type, e.g. for S.unknown
+      return undefined;
+  }
+};
+
+const singleFlagType = (type: FlagType): InferredFlagType => ({
+  type,
+  isMultiple: false,
+});
+
+const literalFlagType = (literal: AST.LiteralValue) =>
+  typeof literal === "string" ||
+  typeof literal === "number" ||
+  typeof literal === "boolean"
+    ? singleFlagType(typeof literal as FlagType)
+    : undefined;
+
+const tupleFlagType = ({ elements, rest }: AST.Tuple) => {
+  const restTypes = O.getOrElse(rest, () => []);
+  const elementType =
+    elements.length === 0 && restTypes.length === 1
+      ? inferFlagType(restTypes[0])
+      : undefined;
+  return elementType === undefined || elementType.isMultiple
+    ? undefined
+    : { ...elementType, isMultiple: true };
+};
+
+const combineFlagTypes = (
+  flagTypes: ReadonlyArray<InferredFlagType | undefined>,
+) => {
+  const first = flagTypes[0];
+  return first !== undefined &&
+    flagTypes.every(
+      (flagType) =>
+        flagType !== undefined &&
+        flagType.type === first.type &&
+        flagType.isMultiple === first.isMultiple,
+    )
+    ? first
+    : undefined;
+};
+
+const getFlagTypeText = ({
+  type,
+  isMultiple,
+}: {
+  type?: FlagType | undefined;
+  isMultiple?: boolean | undefined;
+}) => `${isMultiple ? "multiple " : ""}${type ?? "string"}`;
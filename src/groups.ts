@@ -0,0 +1,214 @@
+/**
+ * @file This file contains code related to groups of properties in input specification, which are flattened to prefixed properties when collecting input, and nested back before final validation.
+ */
+import * as inputSpec from "./input-spec";
+
+/**
+ * Gets the name of the property of the group, as it is used when collecting input, e.g. `dbHost` for property `host` of group `db`.
+ * This name is used to deduce the CLI flag, environment variable, and other sources of the property.
+ * @param groupName The name of the group.
+ * @param propertyName The name of the property within the group.
+ * @returns The prefixed name of the property.
+ */
+export const getGroupPropertyName = (groupName: string, propertyName: string) =>
+  `${groupName}${propertyName.charAt(0).toUpperCase()}${propertyName.slice(1)}`;
+
+/**
+ * Flattens the groups of given input specification to prefixed properties, see {@link getGroupPropertyName}.
+ * Each group is replaced by message spec printing the heading of the group, followed by the properties of the group, with order numbers placed between the order number of the group and the next integer.
+ * The condition of the group is combined to conditions of all its properties.
+ * @param spec The input specification.
+ * @returns The input specification without groups.
+ */
+export const flattenInputSpec = (
+  spec: inputSpec.InputSpecBase,
+): inputSpec.InputSpecBase =>
+  Object.fromEntries(
+    Object.entries(spec).flatMap(([propertyName, stage]) =>
+      stage.type === inputSpec.TYPE_GROUP
+        ? flattenGroup(propertyName, stage)
+        : [[propertyName, stage] as const],
+    ),
+  );
+
+/**
+ * Nests the values of the prefixed properties of the groups back to objects, as specified by given input specification.
+ * The nested object of group without condition is always present, while the nested object of group with condition is present only if some of its properties have values.
+ * @param spec The input specification.
+ * @param input The input, collected using input specification flattened by {@link flattenInputSpec}.
+ * @returns The input with nested objects for groups.
+ */
+export const nestInput = (
+  spec: inputSpec.InputSpecBase,
+  input: Readonly<Record<string, unknown>>,
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(spec).flatMap(([propertyName, stage]) => {
+      if (stage.type !== inputSpec.TYPE_GROUP) {
+        return propertyName in input
+          ? [[propertyName, input[propertyName]] as const]
+          : [];
+      }
+      const nested = Object.fromEntries(
+        Object.keys(stage.properties).flatMap((groupPropertyName) => {
+          const flatName = getGroupPropertyName(
+            propertyName,
+            groupPropertyName,
+          );
+          return flatName in input
+            ? [[groupPropertyName, input[flatName]] as const]
+            : [];
+        }),
+      );
+      return stage.condition === undefined || Object.keys(nested).length > 0
+        ? [[propertyName, nested] as const]
+        : [];
+    }),
+  );
+
+/**
+ * Flattens the nested objects of groups in given input to prefixed properties, reversing {@link nestInput}.
+ * The properties which are already flattened are kept as-is.
+ * @param spec The input specification.
+ * @param input The input with nested objects for groups.
+ * @returns The input with prefixed properties for groups.
+ */
+export const flattenInput = (
+  spec: inputSpec.InputSpecBase,
+  input: Readonly<Record<string, unknown>>,
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(input).flatMap(([propertyName, value]) =>
+      spec[propertyName]?.type === inputSpec.TYPE_GROUP &&
+      typeof value === "object" &&
+      value !== null
+        ? Object.entries(value).map(
+            ([groupPropertyName, groupValue]) =>
+              [
+                getGroupPropertyName(propertyName, groupPropertyName),
+                groupValue as unknown,
+              ] as const,
+          )
+        : [[propertyName, value] as const],
+    ),
+  );
+
+/**
+ * Gets the names of the properties of flattened input specification, which correspond to given property of original input specification.
+ * @param spec The input specification.
+ * @param propertyName The name of the property of the input specification.
+ * @returns The prefixed names of the properties, if property is group, otherwise the name of the property itself.
+ */
+export const getFlatPropertyNames = (
+  spec: inputSpec.InputSpecBase,
+  propertyName: string,
+): Array<string> => {
+  const stage = spec[propertyName] as
+    | inputSpec.InputSpecBase[string]
+    | undefined;
+  return stage?.type === inputSpec.TYPE_GROUP
+    ? Object.keys(stage.properties).map((groupPropertyName) =>
+        getGroupPropertyName(propertyName, groupPropertyName),
+      )
+    : [propertyName];
+};
+
+/**
+ * This type represents the input specification, which has groups flattened to prefixed properties by {@link flattenInputSpec}.
+ */
+export type FlattenedInputSpec<TInputSpec extends inputSpec.InputSpecBase> =
+  Flatten<
+    {
+      [P in keyof TInputSpec as TInputSpec[P] extends inputSpec.GroupSpecBase
+        ? never
+        : P]: TInputSpec[P];
+    } & {
+      [P in FlatGroupPropertyKeys<TInputSpec>]: {
+        [G in GroupKeys<TInputSpec>]: P extends keyof FlatGroupProperties<
+          TInputSpec,
+          G
+        >
+          ? FlatGroupProperties<TInputSpec, G>[P]
+          : never;
+      }[GroupKeys<TInputSpec>];
+    }
+  >;
+
+/**
+ * This type represents all the names of the given input spec which are groups.
+ * @see {@link inputSpec.GroupSpec}
+ */
+export type GroupKeys<TInputSpec extends inputSpec.InputSpecBase> = {
+  [P in keyof TInputSpec]: TInputSpec[P] extends inputSpec.GroupSpecBase
+    ? P
+    : never;
+}[keyof TInputSpec] &
+  string;
+
+type FlatGroupProperties<
+  TInputSpec extends inputSpec.InputSpecBase,
+  TGroupKey extends GroupKeys<TInputSpec>,
+> = {
+  [P in keyof GroupProperties<TInputSpec[TGroupKey]> &
+    string as `${TGroupKey}${Capitalize<P>}`]: GroupProperties<
+    TInputSpec[TGroupKey]
+  >[P];
+};
+
+type GroupProperties<TStage> = TStage extends inputSpec.GroupSpecBase
+  ? TStage["properties"]
+  : never;
+
+type FlatGroupPropertyKeys<TInputSpec extends inputSpec.InputSpecBase> = {
+  [G in GroupKeys<TInputSpec>]: keyof FlatGroupProperties<TInputSpec, G>;
+}[GroupKeys<TInputSpec>];
+
+type Flatten<T> = { [P in keyof T]: T[P] };
+
+const flattenGroup = (
+  groupName: string,
+  { orderNumber, message, condition, properties }: inputSpec.GroupSpecBase,
+) => {
+  // Order numbers of properties are relative, so map them between order number of the group and the next integer, keeping duplicates as duplicates
+  const orderNumbers = Array.from(
+    new Set(Object.values(properties).map((stage) => stage.orderNumber)),
+  ).sort((x, y) => x - y);
+  return [
+    [
+      groupName,
+      {
+        type: inputSpec.TYPE_MESSAGE,
+        orderNumber,
+        message,
+        ...(condition === undefined ? {} : { condition }),
+      },
+    ] as const,
+    ...Object.entries(properties).map(
+      ([propertyName, stage]) =>
+        [
+          getGroupPropertyName(groupName, propertyName),
+          {
+            ...stage,
+            orderNumber:
+              orderNumber +
+              (orderNumbers.indexOf(stage.orderNumber) + 1) /
+                (orderNumbers.length + 1),
+            ...(condition === undefined
+              ? {}
+              : { condition: combineConditions(condition, stage.condition) }),
+          },
+        ] as const,
+    ),
+  ];
+};
+
+// The message returned by condition of the group is printed by the heading, so the properties are silently skipped
+const combineConditions = (
+  groupCondition: inputSpec.ConditionWithDescription<unknown>,
+  condition: inputSpec.ConditionWithDescription<unknown> | undefined,
+): inputSpec.ConditionWithDescription<unknown> => ({
+  description: condition?.description ?? groupCondition.description,
+  isApplicable: async (dynamicValueInput) =>
+    (await groupCondition.isApplicable(dynamicValueInput)) === true &&
+    (condition === undefined || condition.isApplicable(dynamicValueInput)),
+});
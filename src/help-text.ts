@@ -0,0 +1,258 @@
+/**
+ * @file This file contains code related to generating help text from input specification, which is shown by `meow` when `--help` flag is given.
+ */
+import type { AnyFlag } from "meow";
+import * as inputSpec from "./input-spec";
+import * as sources from "./sources";
+import * as positionals from "./positionals";
+import * as flags from "./flags";
+import * as groups from "./groups";
+import * as lists from "./lists";
+import * as prompts from "./prompts";
+import * as secrets from "./secrets";
+import * as validator from "./validator-adapter";
+
+/**
+ * Generates the help text from given input specification.
+ * The usage line, positional arguments, options, and environment variables are all generated from the input specification, and {@link HelpTextOptions} can be used to add description, examples, and custom sections.
+ * @param parameters The {@link GetHelpTextParameters}.
+ * @param parameters.inputSpec Privately deconstructed property.
+ * @param parameters.invocation Privately deconstructed property.
+ * @param parameters.envPrefix Privately deconstructed property.
+ * @param parameters.autoFlags Privately deconstructed property.
+ * @param parameters.options Privately deconstructed property.
+ * @returns The help text to pass to `meow`.
+ */
+export default ({
+  inputSpec: nestedStages,
+  invocation: defaultInvocation,
+  envPrefix,
+  autoFlags,
+  options,
+}: GetHelpTextParameters) => {
+  const invocation = options?.invocation ?? defaultInvocation;
+  // The headings of groups become headings of their sections in options
+  const stages = groups.flattenInputSpec(nestedStages);
+  return [
+    options?.description,
+    getUsageText(invocation, stages),
+    `All options and positional arguments are optional as command-line arguments.
+  If any of them is omitted, the program will prompt for their values.`,
+    getPositionalsHelpText(stages),
+    getOptionsHelpText(stages, autoFlags),
+    getEnvHelpText(stages, envPrefix),
+    ...(options?.sections ?? []).map(getSectionText),
+    getExamplesText(invocation, options?.examples),
+  ]
+    .filter((section): section is string => !!section)
+    .map((section) => `\n  ${section}\n`)
+    .join("");
+};
+
+/**
+ * This interface contains the parameters for generating help text from input specification.
+ */
+export interface GetHelpTextParameters {
+  /**
+   * The input specification.
+   */
+  inputSpec: inputSpec.InputSpecBase;
+  /**
+   * The default command used to invoke the program, e.g. `npx my-package@latest`.
+   */
+  invocation: string;
+  /**
+   * The prefix of environment variable names, see {@link sources.getEnvVariableName}.
+   */
+  envPrefix: string | undefined;
+  /**
+   * The flags which are automatically added, along with their description, e.g. `--no-interactive`.
+   * The keys are the flag texts, as shown in help text.
+   */
+  autoFlags: Readonly<Record<string, string>>;
+  /**
+   * The customizations of help text.
+   */
+  options: HelpTextOptions | undefined;
+}
+
+/**
+ * This interface contains customizations for help text generated from input specification.
+ */
+export interface HelpTextOptions {
+  /**
+   * The description of the program, shown before the usage line.
+   */
+  description?: string;
+  /**
+   * The command used to invoke the program, shown in usage line and examples.
+   * By default, it is `npx <package name>@latest`, followed by the name of the command, if any.
+   */
+  invocation?: string;
+  /**
+   * The examples of CLI arguments, shown after the invocation of the program, e.g. `./my-project --package-manager yarn`.
+   */
+  examples?: ReadonlyArray<string>;
+  /**
+   * The custom sections, shown after the sections generated from input specification.
+   */
+  sections?: ReadonlyArray<HelpTextSection>;
+}
+
+/**
+ * This interface represents single custom section of help text.
+ */
+export interface HelpTextSection {
+  /**
+   * The title of the section.
+   */
+  title: string;
+  /**
+   * The contents of the section, either as single string, or as lines.
+   */
+  content: string | ReadonlyArray<string>;
+}
+
+/**
+ * Gets the text for CLI flag, as it is shown in help text, e.g. `--package-manager, -m <string>`.
+ * @param name The name of the property of input specification.
+ * @param flag The CLI flag specification.
+ * @param flag.type Privately deconstructed property.
+ * @param flag.shortFlag Privately deconstructed property.
+ * @param flag.aliases Privately deconstructed property.
+ * @returns The text for CLI flag.
+ */
+export const getFlagText = (
+  name: string,
+  { type, shortFlag, aliases }: AnyFlag,
+) =>
+  `${[
+    `--${flags.getFlagName(name)}`,
+    ...(shortFlag === undefined ? [] : [`-${shortFlag}`]),
+    ...(aliases ?? []).map((alias) => `--${flags.getFlagName(alias)}`),
+  ].join(", ")}${type === "boolean" ? "" : ` <${type}>`}`;
+
+const getUsageText = (invocation: string, stages: inputSpec.InputSpecBase) =>
+  `Usage: ${invocation} [options...]${positionals
+    .getPositionals(stages)
+    .map((info) => ` ${positionals.getPlaceholder(info)}`)
+    .join("")}`;
+
+const getPositionalsHelpText = (stages: inputSpec.InputSpecBase) => {
+  const infos = positionals.getPositionals(stages);
+  return infos.length > 0
+    ? `Arguments:
+    ${infos
+      .map((info) =>
+        getPropertyText(
+          positionals.getPlaceholder(info),
+          info.propertyName,
+          stages[info.propertyName] as inputSpec.ValidationSpecBase,
+        ),
+      )
+      .join("\n    ")}`
+    : undefined;
+};
+
+const getOptionsHelpText = (
+  stages: inputSpec.InputSpecBase,
+  autoFlags: GetHelpTextParameters["autoFlags"],
+) =>
+  `Options:
+    ${[
+      ...getOptionGroups(stages).flatMap(({ heading, lines }) =>
+        heading === undefined ? lines : [heading, ...lines],
+      ),
+      ...Object.entries(autoFlags).map(
+        ([flagText, description]) => `${flagText}\t${description}`,
+      ),
+    ].join("\n    ")}`;
+
+// Static messages of MessageSpecs act as headings for the options following them
+const getOptionGroups = (stages: inputSpec.InputSpecBase) =>
+  Object.entries(stages)
+    .sort(([, x], [, y]) => x.orderNumber - y.orderNumber)
+    .reduce<Array<{ heading?: string; lines: Array<string> }>>(
+      (groups, [name, stage]) => {
+        if (stage.type === inputSpec.TYPE_MESSAGE) {
+          if (typeof stage.message === "string") {
+            groups.push({ heading: stage.message, lines: [] });
+          }
+        } else if (stage.type === inputSpec.TYPE_VALIDATE) {
+          const flag = flags.getFlag(name, stage);
+          if (flag !== undefined) {
+            groups[groups.length - 1].lines.push(
+              getPropertyText(getFlagText(name, flag), name, stage, flag),
+            );
+          }
+          if (secrets.isSensitive(stage)) {
+            groups[groups.length - 1].lines.push(getFileFlagText(name));
+          }
+        }
+        return groups;
+      },
+      [{ lines: [] }],
+    )
+    .filter(({ lines }) => lines.length > 0);
+
+const getPropertyText = (
+  title: string,
+  propertyName: string,
+  stage: inputSpec.ValidationSpecBase,
+  flag?: AnyFlag,
+) => {
+  const { schema, condition, list, sensitive } = stage;
+  const prompt = prompts.getPrompt(propertyName, stage);
+  const defaultValue: unknown =
+    sensitive === true ? undefined : flag?.default ?? prompt.default;
+  return [
+    `${title}\t${typeof prompt.message === "string" ? prompt.message : ""}`,
+    ...(condition === undefined ? [] : [condition.description]),
+    ...(defaultValue === undefined || typeof defaultValue === "function"
+      ? []
+      : [`Default: ${JSON.stringify(defaultValue)}`]),
+    `Schema: ${validator.describe(schema)}`,
+    ...(list === undefined ? [] : [lists.getListText(list)]),
+  ].join("\n          ");
+};
+
+const getFileFlagText = (propertyName: string) =>
+  `--${flags.getFlagName(
+    secrets.getFileFlagName(propertyName),
+  )} <path>\tRead the value for "${propertyName}" from given file, or from standard input if path is "${
+    secrets.STDIN_PATH
+  }".`;
+
+const getEnvHelpText = (
+  stages: inputSpec.InputSpecBase,
+  envPrefix: string | undefined,
+) => {
+  const envVariables = Object.entries(stages).flatMap(([name, stage]) => {
+    const variableName =
+      stage.type === inputSpec.TYPE_VALIDATE
+        ? sources.getEnvVariableName(name, stage.env, envPrefix)
+        : undefined;
+    return variableName === undefined ? [] : [[name, variableName] as const];
+  });
+  return envVariables.length > 0
+    ? `Environment variables (used when CLI argument is omitted):
+    ${envVariables
+      .map(([name, variableName]) => `${variableName}\tThe value for "${name}"`)
+      .join("\n    ")}`
+    : undefined;
+};
+
+const getSectionText = ({ title, content }: HelpTextSection) =>
+  `${title}:
+    ${(typeof content === "string" ? content.split("\n") : content).join(
+      "\n    ",
+    )}`;
+
+const getExamplesText = (
+  invocation: string,
+  examples: HelpTextOptions["examples"],
+) =>
+  examples === undefined || examples.length === 0
+    ? undefined
+    : `Examples:
+    ${examples.map((example) => `$ ${invocation} ${example}`).join("\n    ")}`;
@@ -3,25 +3,93 @@
  */
 import * as createCLIArgsImport from "./cli-args";
 import * as collectInputImport from "./collect-input";
-import printImport from "./print";
+import * as commandsImport from "./commands";
+import printImport, * as printer from "./print";
+import * as sources from "./sources";
+import * as secrets from "./secrets";
+import * as configFile from "./config-file";
 import * as inputSpec from "./input-spec";
+import schemaToHelpTextImport from "./schema-help";
+import getEquivalentCommandImport from "./equivalent-command";
+import validateInputSpecImport from "./validate-input-spec";
+import * as validator from "./validator-adapter";
+import * as prompter from "./prompter";
+import testCLIImport, * as testKit from "./test-kit";
+import createInputValidatorImport from "./input-validator";
+import omitUndefined from "./omit-undefined";
 
 export const createCLIArgs = createCLIArgsImport.default;
+export const FLAG_INTERACTIVE = createCLIArgsImport.FLAG_INTERACTIVE;
+export const FLAG_CONFIG = createCLIArgsImport.FLAG_CONFIG;
+export const FLAG_ANSWERS = createCLIArgsImport.FLAG_ANSWERS;
+export const FLAG_SAVE_ANSWERS = createCLIArgsImport.FLAG_SAVE_ANSWERS;
+export const getDefaultConfigFileNames = configFile.getDefaultConfigFileNames;
 export const collectInput = collectInputImport.default;
+export const createCommandsAndCollectInput = commandsImport.default;
+export const defineCommand = commandsImport.defineCommand;
 export const print = printImport;
+export const getDefaultText = printer.getDefaultText;
+export const createConsolePrinter = printer.createConsolePrinter;
+export const createJSONLinesPrinter = printer.createJSONLinesPrinter;
+export const silentPrinter = printer.silentPrinter;
+export const defaultPrinter = printer.defaultPrinter;
+export const getEnvVariableName = sources.getEnvVariableName;
+export const REDACTED = secrets.REDACTED;
+export const getFileFlagName = secrets.getFileFlagName;
+export const getEquivalentCommand = getEquivalentCommandImport;
+export const schemaToHelpText = schemaToHelpTextImport;
+export const validateInputSpec = validateInputSpecImport;
+export const adaptSchema = validator.adaptSchema;
+export const effectSchemaAdapter = validator.effectSchemaAdapter;
+export const createInquirerPrompter = prompter.createInquirerPrompter;
+export const createInquirerPromptsPrompter =
+  prompter.createInquirerPromptsPrompter;
+export const createScriptedPrompter = prompter.createScriptedPrompter;
+export const testCLI = testCLIImport;
+export const testCommands = testKit.testCommands;
+export const createInputValidator = createInputValidatorImport;
 
 export * from "./input-spec";
+export * from "./errors";
 export type * from "./cli-args";
 export type * from "./collect-input";
+export type * from "./commands";
+export type * from "./print";
+export type * from "./sources";
+export type * from "./config-file";
+export type * from "./answers";
+export type * from "./help-text";
+export type * from "./validate-input-spec";
+export type * from "./validator-adapter";
+export type * from "./prompter";
+export type * from "./test-kit";
+export type * from "./input-validator";
+export type * from "./groups";
 
 /**
  * In most cases, this function will be the only one to be used from this package.
  * It will parse CLI arguments according to the given {@link inputSpec.InputSpec}, prompt the missing arguments from user, and then validate the final result.
  *
  * If there is a need to decompose these two actions, see {@link createCLIArgs} and {@link collectInput}.
+ * If `isInteractive` is not specified, it is deduced from CLI arguments and environment, see {@link createCLIArgsImport.CLIArgs.isInteractive}.
  * @param param0 The parameters for {@link createCLIArgs} and {@link collectInput}.
  * @param param0.inputValidator Privately deconstructed property.
  * @param param0.getDynamicValueInput Private deconstructed property.
+ * @param param0.promptModule Private deconstructed property.
+ * @param param0.prompter Private deconstructed property.
+ * @param param0.printer Private deconstructed property.
+ * @param param0.isInteractive Private deconstructed property.
+ * @param param0.env Private deconstructed property.
+ * @param param0.config Private deconstructed property.
+ * @param param0.answers Private deconstructed property.
+ * @param param0.saveAnswers Private deconstructed property.
+ * @param param0.printEquivalentCommand Private deconstructed property.
+ * @param param0.review Private deconstructed property.
+ * @param param0.backAnswer Private deconstructed property.
+ * @param param0.maxAttempts Private deconstructed property.
+ * @param param0.maxAttemptsPerProperty Private deconstructed property.
+ * @param param0.signal Private deconstructed property.
+ * @param param0.inputSpecValidation Private deconstructed property.
  * @returns The validated input, and deduced package root.
  */
 export const createCLIArgsAndCollectInput = async <
@@ -30,6 +98,21 @@ export const createCLIArgsAndCollectInput = async <
 >({
   inputValidator,
   getDynamicValueInput,
+  promptModule,
+  prompter: prompterParam,
+  printer,
+  isInteractive,
+  env,
+  config: configParam,
+  answers: answersParam,
+  saveAnswers: saveAnswersParam,
+  printEquivalentCommand,
+  review,
+  backAnswer,
+  maxAttempts,
+  maxAttemptsPerProperty,
+  signal,
+  inputSpecValidation,
   ...args
 }: createCLIArgsImport.GetCLIArgsParameters<TInputSpec> &
   Omit<
@@ -37,14 +120,56 @@ export const createCLIArgsAndCollectInput = async <
       TInputSpec,
       TValidatedInput
     >,
-    "cliArgs"
-  >) => {
-  const { cliArgs, packageRoot } = await createCLIArgs(args);
+    "cliArgs" | "invocation"
+  > & {
+    /**
+     * Set this to `true` to print the command line which reproduces the collected input without prompting, if some of the values were prompted from user.
+     * @see getEquivalentCommand
+     */
+    printEquivalentCommand?: boolean;
+  }) => {
+  const {
+    cliArgs,
+    packageRoot,
+    isInteractive: isInteractiveFromCLI,
+    config: configFromCLI,
+    answers: answersFromCLI,
+    saveAnswers: saveAnswersFromCLI,
+    invocation,
+  } = await createCLIArgs({
+    ...args,
+    ...omitUndefined({ env }),
+    ...(inputSpecValidation === false
+      ? { inputSpecValidation }
+      : {
+          inputSpecValidation: { ...inputSpecValidation, getDynamicValueInput },
+        }),
+  });
+  const config = configParam ?? configFromCLI;
+  const answers = answersParam ?? answersFromCLI;
+  const saveAnswers = saveAnswersParam ?? saveAnswersFromCLI;
   return {
     validatedInput: collectInput(args.inputSpec)({
       cliArgs,
       inputValidator,
       getDynamicValueInput,
+      isInteractive: isInteractive ?? isInteractiveFromCLI,
+      ...omitUndefined({
+        promptModule,
+        prompter: prompterParam,
+        printer,
+        env,
+        config,
+        answers,
+        saveAnswers,
+        review,
+        backAnswer,
+        maxAttempts,
+        maxAttemptsPerProperty,
+        signal,
+        envPrefix: args.envPrefix,
+      }),
+      ...(printEquivalentCommand === true ? { invocation } : {}),
     }),
     packageRoot,
   };
@@ -2,10 +2,10 @@
  * @file This file contains types used when defining input specification used by other functions of this library.
  * @see {@link InputSpec}
  */
-import type * as S from "@effect/schema/Schema";
 import type * as F from "@effect/data/Function";
 import { type AnyFlag } from "meow";
 import { type DistinctQuestion } from "inquirer";
+import type * as validator from "./validator-adapter";
 
 /**
  * This type defines type which should be used when defining input specification with `satisfies` keyword.
@@ -109,7 +109,7 @@ import { type DistinctQuestion } from "inquirer";
  */
 export type InputSpec<TDynamicValueInput = never> = Record<
   string,
-  InputSpecProperty<TDynamicValueInput>
+  InputSpecProperty<TDynamicValueInput> | GroupSpec<TDynamicValueInput>
 >;
 
 /**
@@ -120,6 +120,18 @@ export type InputSpec<TDynamicValueInput = never> = Record<
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type InputSpecBase = InputSpec<any>;
 
+/**
+ * This type defines a base type for {@link ValidationSpec}, used by functions which do not care about the type of dynamic value input.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ValidationSpecBase = ValidationSpec<any>;
+
+/**
+ * This type defines a base type for {@link GroupSpec}, used by functions which do not care about the type of dynamic value input.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type GroupSpecBase = GroupSpec<any>;
+
 /**
  * This type represents specification of single property within input specification.
  * @see {@link InputSpec}
@@ -149,21 +161,64 @@ export interface ValidationSpec<TDynamicValueInput> extends CommonSpec {
   type: typeof TYPE_VALIDATE;
   /**
    * The prompt specification, if value for this property spec will need to be prompted from user.
+   * The prompt is deduced from the `schema` (e.g. union of literals produces `list` prompt), and the properties specified here override the deduced ones.
+   * If omitted, the deduced prompt is used as-is.
+   *
+   * Can also be a callback to compute the overriding properties, synchronously or asynchronously, from the dynamic value input, e.g. to offer choices based on earlier answers.
+   * The callback is invoked right before prompting, and it is not used when generating help text.
    * @see DistinctQuestion
    */
-  prompt: DistinctQuestion;
+  prompt?:
+    | Partial<DistinctQuestion>
+    | DynamicValue<
+        TDynamicValueInput,
+        Partial<DistinctQuestion> | Promise<Partial<DistinctQuestion>>
+      >;
   /**
    * The CLI flag, if value for this property spec can be taken from CLI flag.
    * If omitted, it is assumed that value can be taken from unflagged CLI arguments.
+   *
+   * Can be either explicit `meow` flag definition, which must be compatible with the `schema`, or {@link FlagShorthand}, in which case the flag definition is deduced from the `schema`.
    * @see AnyFlag
+   * @see FlagShorthand
    */
-  flag?: AnyFlag;
+  flag?: AnyFlag | FlagShorthand;
+  /**
+   * The position of the value within positional (unflagged) CLI arguments, used when `flag` is not specified.
+   * If number, the value is taken from positional CLI argument at that zero-based index.
+   * If {@link POSITIONAL_REST}, the value is array of all positional CLI arguments after the ones taken by numeric positions, and thus the `schema` should accept array of strings.
+   * By default, the value is taken from the first positional CLI argument.
+   */
+  positional?: number | typeof POSITIONAL_REST;
+  /**
+   * The environment variable, if value for this property spec can be taken from it.
+   * The environment variable is consulted after CLI arguments, and before prompting from user.
+   *
+   * If string, it is the name of the environment variable.
+   * If `true`, the name is derived from the configurable prefix and the name of this property, e.g. `folderName` with prefix `MY_TOOL_` becomes `MY_TOOL_FOLDER_NAME`.
+   */
+  env?: string | true;
   /**
    * The runtime validation for the value, which comes from CLI argument or user prompt.
    * Notice that this is allowed to do transformation, e.g. timestamp string to Date object.
+   * The values from all sources (CLI arguments, environment variables, files, and prompts) are decoded via this schema, and the decoded values are passed to input validator.
+   * Can be either `@effect/schema` schema, or schema of other validation library wrapped with `adaptSchema`.
+   * @see validator.SchemaBase
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  schema: S.Schema<any>;
+  schema: validator.SchemaBase;
+  /**
+   * If specified, the value of this property is list of items, each of which is validated via the `schema`.
+   * The items are prompted one by one, asking user whether to add another item, and they can be given as repeated CLI flags or comma-separated values, with commas within items escaped as `\,`.
+   * @see ListSpec
+   */
+  list?: ListSpec;
+  /**
+   * Set this to `true` if the value of this property is secret, e.g. access token or password.
+   * The value is then prompted using `password` prompt, redacted from all the printed messages and errors, and never recorded to answers file or equivalent command.
+   *
+   * In addition to other sources, the value can be read from the file given via `--<property-name>-file` CLI flag, with `-` meaning standard input, so that it does not need to be given on command line.
+   */
+  sensitive?: boolean;
   /**
    * Optional condition when this spec should be used.
    * @see ConditionWithDescription
@@ -171,6 +226,31 @@ export interface ValidationSpec<TDynamicValueInput> extends CommonSpec {
   condition?: ConditionWithDescription<TDynamicValueInput>;
 }
 
+/**
+ * This interface contains the limits for the number of items of list-valued {@link ValidationSpec}.
+ */
+export interface ListSpec {
+  /**
+   * The minimum number of items.
+   * The items are prompted without asking until this many items have been given.
+   * By default, the list can be empty.
+   */
+  min?: number;
+  /**
+   * The maximum number of items.
+   * Once this many items have been given, user is no longer asked whether to add another item.
+   * By default, the list can have any number of items.
+   */
+  max?: number;
+}
+
+/**
+ * This type represents shorthand for CLI flag in {@link ValidationSpec}, the `meow` flag definition being deduced from the schema of the property.
+ * If `true`, only the type of the flag is deduced, e.g. `S.number` produces `{ type: "number" }`, and `S.array(S.string)` produces `{ type: "string", isMultiple: true }`.
+ * If string, it is used as the short flag, e.g. `"m"` for `-m`.
+ */
+export type FlagShorthand = true | string;
+
 /**
  * This interface defines the shape of the condition which will be evaluated during input validation process.
  * If condition is present in {@link ValidationSpec}, it will be evaluated, and processing the specification will be skipped if `isApplicable` callback returns `false`.
@@ -213,6 +293,54 @@ export interface MessageSpec<TDynamicValueInput> extends CommonSpec {
    * If callback returns `undefined`, printing the message will be skipped.
    */
   message: string | DynamicValue<TDynamicValueInput, string | undefined>;
+  /**
+   * Optional condition when this message should be printed.
+   * @see ConditionWithDescription
+   */
+  condition?: ConditionWithDescription<TDynamicValueInput>;
+}
+
+/**
+ * This interface contains properties which constitute group of properties, producing nested object in the input.
+ * The properties of the group are specified by their own input specification, which can not contain further groups.
+ *
+ * The CLI flags, environment variables, and other sources use the name of the group as prefix, e.g. property `host` of group `db` becomes flag `--db-host`.
+ * @example
+ * ```ts
+ * const inputSpec = {
+ *   db: {
+ *     type: mi.TYPE_GROUP,
+ *     orderNumber: 1,
+ *     message: "Database",
+ *     properties: {
+ *       host: { type: mi.TYPE_VALIDATE, orderNumber: 0, schema: S.string, flag: true },
+ *       port: { type: mi.TYPE_VALIDATE, orderNumber: 1, schema: S.number, flag: true },
+ *     },
+ *   },
+ * } as const satisfies mi.InputSpec;
+ * // The input will be of type { db: { host: string; port: number } }
+ * ```
+ */
+export interface GroupSpec<TDynamicValueInput> extends CommonSpec {
+  /**
+   * The discriminating type union -property which identifies this as group of properties.
+   */
+  type: typeof TYPE_GROUP;
+  /**
+   * The heading of the group, printed before processing the properties of the group, and used as the heading of the section in help text.
+   */
+  message: string;
+  /**
+   * The properties of the group.
+   * Their order numbers are relative to each other, and the whole group is processed in place of the `orderNumber` of the group.
+   */
+  properties: Record<string, InputSpecProperty<TDynamicValueInput>>;
+  /**
+   * Optional condition when this group should be used.
+   * If it is not applicable, all the properties of the group are skipped, and the nested object is absent from the input.
+   * @see ConditionWithDescription
+   */
+  condition?: ConditionWithDescription<TDynamicValueInput>;
 }
 
 /**
@@ -236,3 +364,11 @@ export const TYPE_VALIDATE = "validate";
  * This constant should be used to identify {@link InputSpecProperty} to be {@link MessageSpec}.
  */
 export const TYPE_MESSAGE = "message";
+/**
+ * This constant should be used to identify {@link GroupSpec}.
+ */
+export const TYPE_GROUP = "group";
+/**
+ * This constant should be used as `positional` of {@link ValidationSpec}, when the property should capture all remaining positional CLI arguments.
+ */
+export const POSITIONAL_REST = "rest";
@@ -0,0 +1,168 @@
+/**
+ * @file This file contains code related to creating the final input validator from the schemas of the input specification.
+ */
+import * as F from "@effect/data/Function";
+import * as E from "@effect/data/Either";
+import * as O from "@effect/data/Option";
+import * as S from "@effect/schema/Schema";
+import type * as PR from "@effect/schema/ParseResult";
+import * as TF from "@effect/schema/TreeFormatter";
+import type * as collect from "./collect-input";
+import type * as groups from "./groups";
+import * as inputSpec from "./input-spec";
+import type * as lists from "./lists";
+import * as validator from "./validator-adapter";
+
+/**
+ * Creates {@link collect.InputValidator} which validates the collected input against the struct schema built from the properties of the input specification.
+ * The properties which have `condition` are optional, as they might have been skipped, while all the other properties are required.
+ * The groups are validated as nested structs, and their errors are reported for the whole group.
+ * The errors are reported for each offending property separately, so that only those are prompted again.
+ *
+ * The schemas which are not `@effect/schema` schemas only have their presence checked, as their values have already been decoded by their adapters.
+ * @param spec The input specification.
+ * @param check The optional callback to perform additional checks, e.g. between several properties, once the input passes schema validation.
+ * @returns The {@link collect.InputValidator}, producing {@link ValidatedInput}.
+ * @example
+ * ```ts
+ * const validatedInput = await mi.createCLIArgsAndCollectInput({
+ *   inputSpec,
+ *   inputValidator: mi.createInputValidator(inputSpec, ({ from, to }) =>
+ *     from <= to ? [] : [["to", "Must not be before start."]],
+ *   ),
+ *   // ...
+ * });
+ * ```
+ */
+export default <TInputSpec extends inputSpec.InputSpecBase>(
+  spec: TInputSpec,
+  check?: InputCheck<TInputSpec>,
+): collect.InputValidator<TInputSpec, ValidatedInput<TInputSpec>> => {
+  const validate = S.validateEither(createInputSchema(spec));
+  return (input) =>
+    F.pipe(
+      validate(input, { errors: "all" }),
+      E.match({
+        onLeft: ({ errors }) =>
+          F.pipe(
+            getPropertyErrors<InputKeys<TInputSpec>>(errors),
+            E.match({
+              onLeft: F.identity,
+              onRight: (propertyErrors) => Promise.resolve(propertyErrors),
+            }),
+          ),
+        onRight: async (validated) => {
+          const validatedInput = validated as ValidatedInput<TInputSpec>;
+          const issues = check === undefined ? [] : await check(validatedInput);
+          return issues.length > 0 ? [...issues] : validatedInput;
+        },
+      }),
+    );
+};
+
+/**
+ * This type represents the input validated by {@link collect.InputValidator} created by this module.
+ * The properties which have `condition` are optional, and all the other properties of input specification with schema are required.
+ * The groups produce nested objects validated by same rules.
+ */
+export type ValidatedInput<TInputSpec extends inputSpec.InputSpecBase> =
+  Flatten<
+    {
+      -readonly [P in RequiredKeys<TInputSpec>]: PropertyType<TInputSpec, P>;
+    } & {
+      -readonly [P in ConditionalKeys<TInputSpec>]?: PropertyType<
+        TInputSpec,
+        P
+      >;
+    }
+  >;
+
+/**
+ * This type represents the callback to perform additional checks for the input which passed the schema validation.
+ * It should return the names of offending properties along with error messages, or empty array if input is valid.
+ */
+export type InputCheck<TInputSpec extends inputSpec.InputSpecBase> = (
+  input: ValidatedInput<TInputSpec>,
+) =>
+  | ReadonlyArray<readonly [InputKeys<TInputSpec>, string]>
+  | Promise<ReadonlyArray<readonly [InputKeys<TInputSpec>, string]>>;
+
+type InputKeys<TInputSpec extends inputSpec.InputSpecBase> =
+  | collect.SchemaKeys<TInputSpec>
+  | groups.GroupKeys<TInputSpec>;
+
+type RequiredKeys<TInputSpec extends inputSpec.InputSpecBase> = Exclude<
+  InputKeys<TInputSpec>,
+  ConditionalKeys<TInputSpec>
+>;
+
+type ConditionalKeys<TInputSpec extends inputSpec.InputSpecBase> = {
+  [P in InputKeys<TInputSpec>]: TInputSpec[P] extends {
+    condition: object;
+  }
+    ? P
+    : never;
+}[InputKeys<TInputSpec>];
+
+type PropertyType<
+  TInputSpec extends inputSpec.InputSpecBase,
+  P extends keyof TInputSpec,
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+> = TInputSpec[P] extends inputSpec.ValidationSpec<infer _>
+  ? lists.ListValue<TInputSpec[P], S.To<TInputSpec[P]["schema"]>>
+  : TInputSpec[P] extends inputSpec.GroupSpecBase
+  ? ValidatedInput<TInputSpec[P]["properties"]>
+  : never;
+
+type Flatten<T> = { [P in keyof T]: T[P] };
+
+const createInputSchema = (
+  spec: inputSpec.InputSpecBase,
+): S.Schema<Record<string, unknown>> =>
+  S.struct(
+    Object.fromEntries(
+      Object.entries(spec).flatMap(([propertyName, stage]) => {
+        if (stage.type === inputSpec.TYPE_MESSAGE) {
+          return [];
+        }
+        const schema: S.Schema<unknown> =
+          stage.type === inputSpec.TYPE_GROUP
+            ? S.make(createInputSchema(stage.properties).ast)
+            : // The input has already been decoded, so validate against the "to" side of the schema
+              getValueSchema(stage);
+        return [
+          [
+            propertyName,
+            stage.condition === undefined ? schema : S.optional(schema),
+          ] as const,
+        ];
+      }),
+    ),
+  );
+
+const getValueSchema = ({
+  schema,
+  list,
+}: inputSpec.ValidationSpecBase): S.Schema<unknown> => {
+  const itemSchema = O.match(validator.getAST(schema), {
+    onNone: (): S.Schema<unknown> => S.unknown,
+    onSome: (ast) => S.to(S.make<unknown, unknown>(ast)),
+  });
+  // The number of items has already been checked when decoding
+  return list === undefined ? itemSchema : S.make(S.array(itemSchema).ast);
+};
+
+// The keys of errors are always property names, as the struct schema is built from input specification
+const getPropertyErrors = <TKey>(
+  errors: readonly [PR.ParseErrors, ...Array<PR.ParseErrors>],
+): E.Either<string, Array<readonly [TKey, string]>> => {
+  const propertyErrors = errors.flatMap((error) =>
+    error._tag === "Key"
+      ? [[error.key as TKey, TF.formatErrors(error.errors)] as const]
+      : [],
+  );
+  // Errors not related to any property mean that input itself is structurally invalid, which is internal error
+  return propertyErrors.length === errors.length
+    ? E.right(propertyErrors)
+    : E.left(TF.formatErrors(errors));
+};
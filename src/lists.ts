@@ -0,0 +1,159 @@
+/**
+ * @file This file contains code related to list-valued properties of input specification, the items of which are validated one by one.
+ */
+import * as E from "@effect/data/Either";
+import * as A from "@effect/data/ReadonlyArray";
+import type * as inputSpec from "./input-spec";
+import * as sources from "./sources";
+import * as validator from "./validator-adapter";
+
+/**
+ * Checks and decodes the value of given property of input specification, using the adapter of its schema.
+ * If the property is list-valued, the value is decoded via {@link decodeList}.
+ * @param stage The {@link inputSpec.ValidationSpec}.
+ * @param value The value to decode.
+ * @param origin The origin of the value, telling whether the items of list are given as comma-separated text, see {@link isSplitOrigin}.
+ * @returns Either formatted error message, or decoded value.
+ */
+export const decode = (
+  stage: inputSpec.ValidationSpecBase,
+  value: unknown,
+  origin: sources.ValueOrigin,
+): E.Either<string, unknown> =>
+  stage.list === undefined
+    ? validator.decode(stage.schema, value)
+    : decodeList(stage.schema, stage.list, value, isSplitOrigin(origin));
+
+/**
+ * Encodes the value of given property of input specification back to the form that user would give, using the adapter of its schema.
+ * If the property is list-valued, each item is encoded separately.
+ * @param stage The {@link inputSpec.ValidationSpec}.
+ * @param value The value to encode.
+ * @returns Either formatted error message, or encoded value.
+ */
+export const encode = (
+  stage: inputSpec.ValidationSpecBase,
+  value: unknown,
+): E.Either<string, unknown> => {
+  if (stage.list === undefined) {
+    return validator.encode(stage.schema, value);
+  }
+  if (!Array.isArray(value)) {
+    return E.left("Expected a list of items.");
+  }
+  const [errorMessages, encoded] = A.separate(
+    value.map((item) => validator.encode(stage.schema, item)),
+  );
+  return errorMessages.length > 0
+    ? E.left(errorMessages.join("\n"))
+    : E.right(encoded);
+};
+
+/**
+ * Checks and decodes the items of list-valued property of input specification.
+ * The value can be either array of items, e.g. from repeated CLI flags, or single item.
+ * If `split` is `true`, the string items are further split as comma-separated values, see {@link splitItems}, e.g. `--ports 80,443`.
+ * The items given as strings are parsed like environment variables, see {@link sources.parseRawValue}.
+ * @param schema The schema of single item.
+ * @param list The {@link inputSpec.ListSpec}.
+ * @param list.min Privately deconstructed property.
+ * @param list.max Privately deconstructed property.
+ * @param value The value to decode.
+ * @param split Whether to split string items as comma-separated values.
+ * @returns Either error message with separate line for each offending item, or the decoded items.
+ */
+export const decodeList = (
+  schema: validator.SchemaBase,
+  { min, max }: inputSpec.ListSpec,
+  value: unknown,
+  split: boolean,
+): E.Either<string, Array<unknown>> => {
+  const results = (Array.isArray(value) ? value : [value])
+    .flatMap((item: unknown) =>
+      split && typeof item === "string" ? splitItems(item) : [item],
+    )
+    .map((item) =>
+      validator.decode(
+        schema,
+        typeof item === "string" ? sources.parseRawValue(schema, item) : item,
+      ),
+    );
+  const errorMessages = [
+    ...results.flatMap((result, index) =>
+      E.isLeft(result) ? [`Item ${index + 1}: ${result.left}`] : [],
+    ),
+    ...getCountErrors(results.length, min, max),
+  ];
+  return errorMessages.length > 0
+    ? E.left(errorMessages.join("\n"))
+    : E.right(A.separate(results)[1]);
+};
+
+/**
+ * Checks whether the items of list-valued property are given as comma-separated text by given origin: CLI arguments and environment variables.
+ * The other origins, e.g. answers and configuration files, give the items as arrays, which are used as-is.
+ * @param origin The {@link sources.ValueOrigin}.
+ * @param origin.type Privately deconstructed property.
+ * @returns `true` if the string items should be split, `false` otherwise.
+ */
+export const isSplitOrigin = ({ type }: sources.ValueOrigin) =>
+  type === "cli" || type === "env";
+
+/**
+ * Splits the comma-separated items, trimming them and skipping empty ones.
+ * The commas within items are escaped with backslash, e.g. `a\, b,c` is split to `a, b` and `c`, see {@link escapeItem}.
+ * @param text The comma-separated items.
+ * @returns The items.
+ */
+export const splitItems = (text: string): Array<string> =>
+  text
+    .split(/(?<!\\),/)
+    .map((part) => part.replace(/\\,/g, ",").trim())
+    .filter((part) => part.length > 0);
+
+/**
+ * Escapes the commas within the item, so that {@link splitItems} keeps it as single item, e.g. when constructing equivalent command.
+ * @param item The item as text.
+ * @returns The item with commas escaped.
+ */
+export const escapeItem = (item: string) => item.replace(/,/g, "\\,");
+
+/**
+ * Gets the text describing the number of items of list-valued property, used by help text.
+ * @param list The {@link inputSpec.ListSpec}.
+ * @param list.min Privately deconstructed property.
+ * @param list.max Privately deconstructed property.
+ * @returns The text describing the number of items.
+ */
+export const getListText = ({ min, max }: inputSpec.ListSpec) =>
+  `List of ${
+    min === undefined
+      ? max === undefined
+        ? "any number of"
+        : `at most ${max}`
+      : max === undefined
+      ? `at least ${min}`
+      : `${min}-${max}`
+  } items, given as repeated or comma-separated values.`;
+
+/**
+ * This type represents the value of the property of input specification, which is list of items if the property is list-valued.
+ */
+export type ListValue<TSpec, TValue> = TSpec extends {
+  list: inputSpec.ListSpec;
+}
+  ? Array<TValue>
+  : TValue;
+
+const getCountErrors = (
+  count: number,
+  min: number | undefined,
+  max: number | undefined,
+) => [
+  ...(min !== undefined && count < min
+    ? [`Expected at least ${min} items, but got ${count}.`]
+    : []),
+  ...(max !== undefined && count > max
+    ? [`Expected at most ${max} items, but got ${count}.`]
+    : []),
+];
@@ -0,0 +1,13 @@
+/**
+ * @file This file contains helper to pass optional parameters along, which is needed due to `exactOptionalPropertyTypes` setting of TypeScript.
+ */
+
+/**
+ * Removes the properties with `undefined` values from given record, so that the result can be spread to parameters with optional properties.
+ * @param record The record with possibly `undefined` values.
+ * @returns The record without properties having `undefined` values.
+ */
+export default <T extends Record<string, unknown>>(record: T) =>
+  Object.fromEntries(
+    Object.entries(record).filter(([, value]) => value !== undefined),
+  ) as { [P in keyof T]?: Exclude<T[P], undefined> };
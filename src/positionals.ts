@@ -0,0 +1,92 @@
+/**
+ * @file This file contains functions related to mapping positional (unflagged) CLI arguments to properties of input specification.
+ */
+import * as inputSpec from "./input-spec";
+
+/**
+ * This interface represents single property of input specification, which takes its value from positional CLI arguments.
+ */
+export interface PositionalInfo {
+  /**
+   * The name of the property of input specification.
+   */
+  propertyName: string;
+  /**
+   * The zero-based index of positional CLI argument, or {@link inputSpec.POSITIONAL_REST} for all remaining positional CLI arguments.
+   */
+  position: number | typeof inputSpec.POSITIONAL_REST;
+}
+
+/**
+ * Gets all the properties of given input specification which take their value from positional CLI arguments, ordered by their position, rest being the last.
+ * @param spec The input specification.
+ * @returns The {@link PositionalInfo}s of properties which take their value from positional CLI arguments.
+ */
+export const getPositionals = (
+  spec: inputSpec.InputSpecBase,
+): Array<PositionalInfo> =>
+  Object.entries(spec)
+    .flatMap(([propertyName, stage]) =>
+      stage.type === inputSpec.TYPE_VALIDATE && stage.flag === undefined
+        ? [{ propertyName, position: stage.positional ?? 0 }]
+        : [],
+    )
+    .sort((x, y) => getSortKey(x.position) - getSortKey(y.position));
+
+/**
+ * Gets the index of first positional CLI argument which belongs to the property with {@link inputSpec.POSITIONAL_REST} position.
+ * @param spec The input specification.
+ * @returns The index of first positional CLI argument not taken by numeric positions.
+ */
+export const getRestStartIndex = (spec: inputSpec.InputSpecBase) =>
+  getPositionals(spec).reduce(
+    (startIndex, { position }) =>
+      position === inputSpec.POSITIONAL_REST
+        ? startIndex
+        : Math.max(startIndex, position + 1),
+    0,
+  );
+
+/**
+ * Gets the value of positional CLI argument(s) at given position.
+ * @param input The positional CLI arguments.
+ * @param position The position, see {@link inputSpec.ValidationSpec.positional}.
+ * @param restStartIndex The index of first positional CLI argument for {@link inputSpec.POSITIONAL_REST} position, see {@link getRestStartIndex}.
+ * @returns The value of positional CLI argument, array of positional CLI arguments for rest, or `undefined` if no such arguments were given.
+ */
+export const getPositionalValue = (
+  input: ReadonlyArray<string>,
+  position: inputSpec.ValidationSpecBase["positional"],
+  restStartIndex: number,
+): string | ReadonlyArray<string> | undefined => {
+  if (position === inputSpec.POSITIONAL_REST) {
+    const rest = input.slice(restStartIndex);
+    return rest.length > 0 ? rest : undefined;
+  }
+  return input[position ?? 0];
+};
+
+/**
+ * Gets the placeholder text used in usage line of help text, e.g. `[folder]` or `[files...]`.
+ * @param info The {@link PositionalInfo}.
+ * @param info.propertyName Privately deconstructed property.
+ * @param info.position Privately deconstructed property.
+ * @returns The placeholder text for the property.
+ */
+export const getPlaceholder = ({ propertyName, position }: PositionalInfo) =>
+  `[${propertyName}${position === inputSpec.POSITIONAL_REST ? "..." : ""}]`;
+
+/**
+ * Gets the human-readable description of the position, e.g. `positional argument #1`.
+ * @param position The position, see {@link inputSpec.ValidationSpec.positional}.
+ * @returns The textual description of the position.
+ */
+export const getPositionText = (
+  position: inputSpec.ValidationSpecBase["positional"],
+) =>
+  position === inputSpec.POSITIONAL_REST
+    ? "remaining positional arguments"
+    : `positional argument #${(position ?? 0) + 1}`;
+
+const getSortKey = (position: PositionalInfo["position"]) =>
+  position === inputSpec.POSITIONAL_REST ? Number.MAX_SAFE_INTEGER : position;
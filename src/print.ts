@@ -1,12 +1,405 @@
 /**
- * @file This file contains helper function to print a message to console as default export.
+ * @file This file contains types and functions related to reporting the progress of input collection to the user.
+ * The input collection process emits structured {@link PrintEvent}s to a {@link Printer}, which decides how (and whether) to render them.
  */
+import chalk from "chalk";
+import * as errors from "./errors";
+import * as sources from "./sources";
+
 /**
  * Helper function to print a message to console using given level.
  * @param msg The message to print
  * @param level The level to use.
  * @returns void.
  */
-export default (msg: string, level: "info" | "warn" | "error" = "info") =>
+export default (msg: string, level: PrintLevel = "info") =>
   // eslint-disable-next-line no-console
   console[level](msg);
+
+/**
+ * This type represents the callback which receives all the events emitted during input collection process.
+ * Use {@link createConsolePrinter}, {@link createJSONLinesPrinter}, or {@link silentPrinter} to create one, or write a custom one to render events with own theme.
+ * @see PrintEvent
+ */
+export type Printer = (event: PrintEvent) => void;
+
+/**
+ * The levels of the events passed to {@link Printer}.
+ */
+export type PrintLevel = "info" | "warn" | "error";
+
+/**
+ * This type is union of all the events which can be passed to {@link Printer}.
+ * The `kind` property acts as discriminator.
+ */
+export type PrintEvent =
+  | PrintEventMessage
+  | PrintEventConditionMessage
+  | PrintEventValueUsed
+  | PrintEventValueInvalid
+  | PrintEventValueNotReused
+  | PrintEventValidationError
+  | PrintEventInternalError
+  | PrintEventNonInteractiveReport
+  | PrintEventConfigUnknownKeys
+  | PrintEventAnswersSaved
+  | PrintEventEquivalentCommand
+  | PrintEventReview
+  | PrintEventBackUnavailable;
+
+/**
+ * This interface contains properties common for all {@link PrintEvent}s.
+ */
+export interface PrintEventBase<TKind extends string> {
+  /**
+   * The discriminating type union -property which identifies the type of the event.
+   */
+  kind: TKind;
+  /**
+   * The level of the event.
+   */
+  level: PrintLevel;
+}
+
+/**
+ * This interface contains properties common for all {@link PrintEvent}s related to certain property of input specification.
+ */
+export interface PrintEventWithProperty<TKind extends string>
+  extends PrintEventBase<TKind> {
+  /**
+   * The name of the property of input specification that this event relates to.
+   */
+  propertyName: string;
+}
+
+/**
+ * This event is emitted when message of `MessageSpec` is about to be printed.
+ */
+export interface PrintEventMessage extends PrintEventBase<"message"> {
+  /**
+   * The message of `MessageSpec`.
+   */
+  message: string;
+}
+
+/**
+ * This event is emitted when condition of `ValidationSpec` returned a message instead of boolean, causing the property to be skipped.
+ */
+export interface PrintEventConditionMessage
+  extends PrintEventWithProperty<"conditionMessage"> {
+  /**
+   * The message returned by the condition.
+   */
+  message: string;
+}
+
+/**
+ * This interface contains properties common for all {@link PrintEvent}s related to value supplied via CLI or other source.
+ */
+export interface PrintEventWithValue<TKind extends string>
+  extends PrintEventWithProperty<TKind> {
+  /**
+   * The supplied value.
+   */
+  value: unknown;
+  /**
+   * The origin of the supplied value.
+   */
+  origin: sources.ValueOrigin;
+}
+
+/**
+ * This event is emitted when value supplied via CLI or other source was accepted for a property.
+ */
+export type PrintEventValueUsed = PrintEventWithValue<"valueUsed">;
+
+/**
+ * This event is emitted when value supplied via CLI or other source for a property was not valid, and will be prompted instead.
+ */
+export interface PrintEventValueInvalid
+  extends PrintEventWithValue<"valueInvalid"> {
+  /**
+   * The formatted error message of decoding the value via the schema of the property.
+   */
+  errorMessage: string;
+}
+
+/**
+ * This event is emitted when value supplied via CLI or other source for a property was rejected by final input validation, and will be prompted instead.
+ */
+export type PrintEventValueNotReused = PrintEventWithProperty<"valueNotReused">;
+
+/**
+ * This event is emitted when final input validation rejected value of certain property.
+ */
+export interface PrintEventValidationError
+  extends PrintEventWithProperty<"validationError"> {
+  /**
+   * The error message returned by final input validation.
+   */
+  errorMessage: string;
+}
+
+/**
+ * This event is emitted when final input validation returned internal error, causing the whole input collection process to start from clean slate.
+ */
+export interface PrintEventInternalError
+  extends PrintEventBase<"internalError"> {
+  /**
+   * The error message returned by final input validation.
+   */
+  errorMessage: string;
+}
+
+/**
+ * This event is emitted when input collection in non-interactive mode failed, just before throwing {@link errors.NonInteractiveInputError}.
+ */
+export interface PrintEventNonInteractiveReport
+  extends PrintEventBase<"nonInteractiveReport"> {
+  /**
+   * All the issues encountered during input collection.
+   */
+  issues: ReadonlyArray<errors.NonInteractiveInputIssue>;
+}
+
+/**
+ * This event is emitted when configuration file contains keys which do not correspond to any property of input specification.
+ */
+export interface PrintEventConfigUnknownKeys
+  extends PrintEventBase<"configUnknownKeys"> {
+  /**
+   * The path of the configuration file.
+   */
+  filePath: string;
+  /**
+   * The keys of the configuration file which are not part of input specification.
+   */
+  unknownKeys: ReadonlyArray<string>;
+}
+
+/**
+ * This event is emitted when collected input was written to answers file.
+ */
+export interface PrintEventAnswersSaved extends PrintEventBase<"answersSaved"> {
+  /**
+   * The path of the answers file.
+   */
+  filePath: string;
+}
+
+/**
+ * This event is emitted after input was collected with some of the values prompted from user, containing the command line which reproduces the same input without prompting.
+ */
+export interface PrintEventEquivalentCommand
+  extends PrintEventBase<"equivalentCommand"> {
+  /**
+   * The command line which reproduces the collected input without prompting.
+   */
+  command: string;
+}
+
+/**
+ * This event is emitted when user is about to review the collected values, before final input validation.
+ */
+export interface PrintEventReview extends PrintEventBase<"review"> {
+  /**
+   * The collected values, in the order of the input specification.
+   */
+  entries: ReadonlyArray<ReviewEntry>;
+}
+
+/**
+ * This event is emitted when user answered the first prompt with the back answer, so there is no previous prompt to go back to.
+ */
+export type PrintEventBackUnavailable =
+  PrintEventWithProperty<"backUnavailable">;
+
+/**
+ * This interface represents the collected value of single property of input specification, shown to user for review.
+ */
+export interface ReviewEntry {
+  /**
+   * The name of the property of input specification.
+   */
+  propertyName: string;
+  /**
+   * The collected value, as decoded by the schema of the property.
+   */
+  value: unknown;
+  /**
+   * Where the value came from.
+   */
+  origin: CollectedValueOrigin;
+}
+
+/**
+ * This type represents the origin of collected value: either one of {@link sources.ValueOrigin}s, or `"prompt"` if the value was prompted from user.
+ */
+export type CollectedValueOrigin = sources.ValueOrigin | "prompt";
+
+/**
+ * Gets the textual, `chalk`-styled representation of given {@link PrintEvent}.
+ * This is used by {@link createConsolePrinter} by default.
+ * @param event The {@link PrintEvent}.
+ * @returns The styled textual representation of the event.
+ */
+export const getDefaultText = (event: PrintEvent): string => {
+  switch (event.kind) {
+    case "message":
+    case "conditionMessage":
+      return event.message;
+    case "valueUsed":
+      return chalk.italic(
+        `Using value supplied via ${sources.getOriginText(event.origin)} for "${
+          event.propertyName
+        }" (${event.value}).`,
+      );
+    case "valueInvalid":
+      return chalk.bold.cyanBright(
+        `! The value specified as ${
+          event.origin.type === "cli"
+            ? `CLI ${
+                event.origin.isFlag
+                  ? `parameter "${event.propertyName}"`
+                  : "argument"
+              }`
+            : `${sources.getOriginText(event.origin)} for "${
+                event.propertyName
+              }"`
+        } was not valid, proceeding to prompt for it.\n${event.errorMessage}`,
+      );
+    case "valueNotReused":
+      return chalk.bold.cyanBright(
+        `Not re-using previously supplied value for "${event.propertyName}" after error.`,
+      );
+    case "validationError":
+      return chalk.redBright(
+        `Error for "${event.propertyName}":\n${event.errorMessage}\n`,
+      );
+    case "internalError":
+      return chalk.red(
+        `There has been an internal error when collecting input.\nIgnoring all CLI flags, environment variables, and configuration file from now on, and starting to collect input from beginning.\nError message: ${event.errorMessage}`,
+      );
+    case "nonInteractiveReport":
+      return chalk.red(errors.getNonInteractiveReport(event.issues));
+    case "configUnknownKeys":
+      return chalk.bold.cyanBright(
+        `! The configuration file "${
+          event.filePath
+        }" contains unknown properties, which will be ignored: ${event.unknownKeys
+          .map((key) => `"${key}"`)
+          .join(", ")}.`,
+      );
+    case "answersSaved":
+      return chalk.italic(
+        `The answers were saved to "${event.filePath}", and can be replayed later.`,
+      );
+    case "equivalentCommand":
+      return chalk.italic(
+        `To run again with the same values without prompting, use:\n${event.command}`,
+      );
+    case "review":
+      return getReviewTable(event.entries);
+    case "backUnavailable":
+      return chalk.bold.cyanBright(
+        `There is no previous answer to go back to from "${event.propertyName}".`,
+      );
+  }
+};
+
+const getReviewTable = (entries: ReadonlyArray<ReviewEntry>) => {
+  const rows: ReadonlyArray<readonly [string, string, string]> = [
+    ["Property", "Value", "Origin"],
+    ...entries.map(
+      ({ propertyName, value, origin }) =>
+        [
+          propertyName,
+          getReviewValueText(value),
+          origin === "prompt" ? origin : sources.getOriginText(origin),
+        ] as const,
+    ),
+  ];
+  const widths = [0, 1, 2].map((column) =>
+    Math.max(...rows.map((row) => row[column]?.length ?? 0)),
+  );
+  return rows
+    .map((row, index) => {
+      const line = row
+        .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+        .join("  ")
+        .trimEnd();
+      return index === 0 ? chalk.bold(line) : line;
+    })
+    .join("\n");
+};
+
+const getReviewValueText = (value: unknown) =>
+  value === undefined
+    ? ""
+    : typeof value === "string"
+    ? value
+    : JSON.stringify(value);
+
+/**
+ * This interface contains options for {@link createConsolePrinter}.
+ */
+export interface ConsolePrinterOptions {
+  /**
+   * Optional callback to get textual representation of the event.
+   * If returns `undefined`, the event will not be printed.
+   * By default, {@link getDefaultText} is used.
+   */
+  getText?: (event: PrintEvent) => string | undefined;
+  /**
+   * If `true`, all events will be printed to `stderr`, regardless of their level.
+   * By default, the `console` method matching the level of the event is used.
+   */
+  useStdErr?: boolean;
+}
+
+/**
+ * Creates {@link Printer} which will print events to console, using given text formatting callback.
+ * @param options The {@link ConsolePrinterOptions}.
+ * @returns The {@link Printer} which prints events to console.
+ */
+export const createConsolePrinter =
+  (options: ConsolePrinterOptions = {}): Printer =>
+  (event) => {
+    const text = (options.getText ?? getDefaultText)(event);
+    if (text !== undefined) {
+      if (options.useStdErr === true) {
+        process.stderr.write(`${text}\n`);
+      } else {
+        // eslint-disable-next-line no-console
+        console[event.level](text);
+      }
+    }
+  };
+
+/**
+ * Creates {@link Printer} which will serialize every event as one line of JSON, and pass it to given callback.
+ * This is useful when the CLI is run by some other tool, which will parse the output.
+ * The `bigint` values are serialized as strings, since JSON has no representation for them.
+ * @param write The callback to write a line of text. By default, writes to `stdout`.
+ * @returns The {@link Printer} which emits JSON lines.
+ */
+export const createJSONLinesPrinter =
+  (
+    write: (line: string) => void = (line) => process.stdout.write(line),
+  ): Printer =>
+  (event) =>
+    write(`${JSON.stringify(event, replaceBigInt)}\n`);
+
+const replaceBigInt = (_: string, value: unknown) =>
+  typeof value === "bigint" ? value.toString() : value;
+
+/**
+ * The {@link Printer} which ignores all events.
+ * This is useful e.g. for implementing `--quiet` flag.
+ */
+export const silentPrinter: Printer = () => {};
+
+/**
+ * The default {@link Printer} used when none is specified, which prints events to console styled with `chalk`.
+ */
+export const defaultPrinter: Printer = createConsolePrinter();
@@ -0,0 +1,326 @@
+/**
+ * @file This file contains types and functions related to prompting values from user, abstracting away the actual prompt library.
+ * The adapters are provided for legacy `inquirer` package, newer `@inquirer/prompts` package, and for scripted answers e.g. in tests.
+ */
+import type { DistinctQuestion, PromptModule } from "inquirer";
+
+/**
+ * This type represents the callback which is invoked to prompt the value of single property of input specification from user.
+ * Use {@link createInquirerPrompter}, {@link createInquirerPromptsPrompter}, or {@link createScriptedPrompter} to create one, or write a custom one to use other prompt library.
+ * @see PromptRequest
+ */
+export type Prompter = (request: PromptRequest) => Promise<unknown>;
+
+/**
+ * This interface contains all information needed to prompt the value of single property of input specification from user.
+ */
+export interface PromptRequest {
+  /**
+   * The name of the property of input specification, or empty string for the prompts controlling the input collection, like review step and adding another item to list.
+   * The items of list-valued properties have their index appended, e.g. `tags[0]`.
+   */
+  propertyName: string;
+  /**
+   * The kind of the prompt.
+   */
+  type: PromptType;
+  /**
+   * The message to show to user.
+   */
+  message: string;
+  /**
+   * The default value, if any.
+   */
+  default?: unknown;
+  /**
+   * The choices for `select` and `checkbox` prompts, empty for other prompts.
+   */
+  choices: ReadonlyArray<PromptChoice>;
+  /**
+   * The callback to validate the answer of the user.
+   * Returns `true` if the answer is valid, and error message otherwise.
+   */
+  validate: (answer: unknown) => true | string;
+  /**
+   * Whether the answer should be masked when typed, e.g. for passwords.
+   */
+  secret: boolean;
+  /**
+   * The `inquirer` question, as deduced from schema and overridden by `prompt` of the input specification.
+   * The adapter of legacy `inquirer` package uses this as-is, in order to support all of its features.
+   */
+  question: DistinctQuestion;
+  /**
+   * The signal which is aborted when input collection is cancelled, so that the prompt can be closed, if prompt library supports it.
+   * Even if the prompt is not closed, the input collection stops once the signal is aborted.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * The kinds of prompts of {@link PromptRequest}.
+ */
+export type PromptType = "input" | "number" | "confirm" | "select" | "checkbox";
+
+/**
+ * This interface represents single choice of `select` and `checkbox` prompts.
+ */
+export interface PromptChoice {
+  /**
+   * The text to show to user.
+   */
+  name: string;
+  /**
+   * The value to use as answer, if this choice is selected.
+   */
+  value: unknown;
+}
+
+/**
+ * Creates {@link Prompter} which uses legacy `inquirer` package.
+ * @param promptModule The `inquirer` {@link PromptModule} to use.
+ * @returns The {@link Prompter} using given {@link PromptModule}.
+ */
+export const createInquirerPrompter =
+  (promptModule: PromptModule): Prompter =>
+  async ({ question, validate }) =>
+    (
+      await promptModule<{ question: unknown }>({
+        ...question,
+        name: "question",
+        validate,
+      })
+    ).question;
+
+/**
+ * This interface contains the subset of the `@inquirer/prompts` package used by {@link createInquirerPromptsPrompter}.
+ * The `@inquirer/prompts` package is not dependency of this package, so pass it explicitly: `createInquirerPromptsPrompter(await import("@inquirer/prompts"))`.
+ */
+export interface InquirerPromptsModule {
+  /**
+   * The `input` prompt.
+   */
+  input: (
+    config: {
+      message: string;
+      default?: string;
+      validate?: (value: string) => boolean | string;
+    },
+    context?: InquirerPromptsContext,
+  ) => Promise<string>;
+  /**
+   * The `password` prompt.
+   */
+  password: (
+    config: {
+      message: string;
+      mask?: boolean;
+      validate?: (value: string) => boolean | string;
+    },
+    context?: InquirerPromptsContext,
+  ) => Promise<string>;
+  /**
+   * The `confirm` prompt.
+   */
+  confirm: (
+    config: { message: string; default?: boolean },
+    context?: InquirerPromptsContext,
+  ) => Promise<boolean>;
+  /**
+   * The `select` prompt.
+   */
+  select: (
+    config: {
+      message: string;
+      choices: ReadonlyArray<PromptChoice>;
+      default?: unknown;
+    },
+    context?: InquirerPromptsContext,
+  ) => Promise<unknown>;
+  /**
+   * The `checkbox` prompt.
+   */
+  checkbox: (
+    config: {
+      message: string;
+      choices: ReadonlyArray<PromptChoice & { checked?: boolean }>;
+      validate?: (
+        choices: ReadonlyArray<PromptChoice>,
+      ) => boolean | string | Promise<boolean | string>;
+    },
+    context?: InquirerPromptsContext,
+  ) => Promise<Array<unknown>>;
+}
+
+/**
+ * This interface contains the context passed to the prompts of `@inquirer/prompts` package, allowing cancelling them.
+ */
+export interface InquirerPromptsContext {
+  /**
+   * The signal to cancel the prompt.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Creates {@link Prompter} which uses newer `@inquirer/prompts` package.
+ * Since `@inquirer/prompts` has no `number` prompt, the numbers are prompted using `input` prompt, and then converted, rejecting blank and non-numeric answers.
+ * @param module The `@inquirer/prompts` module, see {@link InquirerPromptsModule}.
+ * @returns The {@link Prompter} using given `@inquirer/prompts` module.
+ */
+export const createInquirerPromptsPrompter =
+  (module: InquirerPromptsModule): Prompter =>
+  (request) => {
+    const { type, message, choices, validate, secret, signal } = request;
+    const context = signal === undefined ? {} : { signal };
+    switch (type) {
+      case "confirm":
+        return module.confirm(
+          {
+            message,
+            ...(typeof request.default === "boolean"
+              ? { default: request.default }
+              : {}),
+          },
+          context,
+        );
+      case "select":
+        return module.select(
+          {
+            message,
+            choices,
+            ...(request.default === undefined
+              ? {}
+              : { default: request.default }),
+          },
+          context,
+        );
+      case "checkbox":
+        return module.checkbox(
+          {
+            message,
+            choices: choices.map((choice) => ({
+              ...choice,
+              checked:
+                Array.isArray(request.default) &&
+                request.default.includes(choice.value),
+            })),
+            validate: (selected) =>
+              validate(selected.map(({ value }) => value)),
+          },
+          context,
+        );
+      default: {
+        const config = {
+          message,
+          validate: (value: string) => validateText(type, validate, value),
+        };
+        return (
+          secret
+            ? module.password({ ...config, mask: true }, context)
+            : module.input(
+                {
+                  ...config,
+                  ...(request.default === undefined
+                    ? {}
+                    : { default: String(request.default) }),
+                },
+                context,
+              )
+        ).then((value) => toAnswer(type, value));
+      }
+    }
+  };
+
+/**
+ * Creates {@link Prompter} which answers the prompts from given queue, instead of asking the user.
+ * This is useful e.g. in tests, or when replaying the answers programmatically.
+ * The answers are returned as-is, even if they do not pass validation, so that the input collection prompts again and counts the attempt, just like user would type the answer again.
+ * @param answers The answers, in the order of prompts.
+ * @returns The {@link Prompter} answering from given queue.
+ * @throws When prompted and the queue has run out of answers.
+ */
+export const createScriptedPrompter = (
+  answers: ReadonlyArray<unknown>,
+): Prompter => {
+  const queue = [...answers];
+  return ({ propertyName }) =>
+    queue.length > 0
+      ? Promise.resolve(queue.shift())
+      : Promise.reject(
+          new Error(`No scripted answer left for property "${propertyName}".`),
+        );
+};
+
+/**
+ * Creates {@link PromptRequest} from given `inquirer` question.
+ * @param propertyName The name of the property of input specification.
+ * @param question The `inquirer` question, as deduced from schema and overridden by `prompt` of the input specification.
+ * @param validate The callback to validate the answer.
+ * @returns The {@link PromptRequest}.
+ */
+export const createPromptRequest = (
+  propertyName: string,
+  question: DistinctQuestion,
+  validate: PromptRequest["validate"],
+): PromptRequest => {
+  const defaultValue: unknown = question.default;
+  return {
+    propertyName,
+    type: getPromptType(question.type),
+    message:
+      typeof question.message === "string" ? question.message : propertyName,
+    ...(defaultValue === undefined || typeof defaultValue === "function"
+      ? {}
+      : { default: defaultValue }),
+    choices: getChoices("choices" in question ? question.choices : undefined),
+    validate,
+    secret: question.type === "password",
+    question,
+  };
+};
+
+const NOT_A_NUMBER = "Please enter a number.";
+
+// The numbers are typed as text, and blank text must not be converted to zero
+const validateText = (
+  type: PromptType,
+  validate: PromptRequest["validate"],
+  value: string,
+) =>
+  type === "number" &&
+  (value.trim().length === 0 || Number.isNaN(Number(value)))
+    ? NOT_A_NUMBER
+    : validate(toAnswer(type, value));
+
+const toAnswer = (type: PromptType, value: string) =>
+  type === "number" ? Number(value) : value;
+
+const getPromptType = (type: DistinctQuestion["type"]): PromptType => {
+  switch (type) {
+    case "number":
+    case "confirm":
+    case "checkbox":
+      return type;
+    case "list":
+    case "rawlist":
+    case "expand":
+      return "select";
+    default:
+      return "input";
+  }
+};
+
+const getChoices = (choices: unknown): ReadonlyArray<PromptChoice> =>
+  Array.isArray(choices)
+    ? choices.flatMap((choice: unknown): Array<PromptChoice> => {
+        if (typeof choice !== "object" || choice === null) {
+          return [{ name: String(choice), value: choice }];
+        }
+        const { name, value, type } = choice as Record<string, unknown>;
+        // Separators are not choices
+        return type === "separator"
+          ? []
+          : [{ name: String(name ?? value), value: value ?? name }];
+      })
+    : [];
@@ -0,0 +1,168 @@
+/**
+ * @file This file contains code related to deducing `inquirer` prompt specification from the schema of the property of input specification.
+ */
+import type { DistinctQuestion } from "inquirer";
+import * as O from "@effect/data/Option";
+import * as AST from "@effect/schema/AST";
+import type * as inputSpec from "./input-spec";
+import * as validator from "./validator-adapter";
+import { getStringAnnotation } from "./schema-help";
+
+/**
+ * Gets the `inquirer` prompt specification for given property of input specification.
+ * The prompt is deduced from the schema of the property, and the properties of explicitly given `prompt` override the deduced ones:
+ * - union of literals, or enum, produces `list` prompt with the literals as choices,
+ * - boolean produces `confirm` prompt,
+ * - number produces `number` prompt,
+ * - array of literals produces `checkbox` prompt with the literals as choices,
+ * - anything else produces `input` prompt.
+ *
+ * The message is taken from title or description annotation of the schema, falling back to the name of the property.
+ * If `prompt` is callback, it is not used, see {@link resolvePrompt}.
+ * If the schema is not `@effect/schema` schema, the `input` prompt with name of the property as message is deduced.
+ * If the property is sensitive, the `password` prompt is always used, without default value.
+ * @param propertyName The name of the property of input specification.
+ * @param spec The {@link inputSpec.ValidationSpec}.
+ * @param spec.schema Privately deconstructed property.
+ * @param spec.prompt Privately deconstructed property.
+ * @param spec.sensitive Privately deconstructed property.
+ * @returns The `inquirer` prompt specification.
+ */
+export const getPrompt = (
+  propertyName: string,
+  { schema, prompt, sensitive }: inputSpec.ValidationSpecBase,
+): DistinctQuestion => {
+  const question = {
+    ...O.getOrElse(O.map(validator.getAST(schema), inferPrompt), () => ({
+      type: "input",
+    })),
+    message: O.getOrElse(
+      O.flatMap(validator.getAST(schema), getMessage),
+      () => propertyName,
+    ),
+    ...(typeof prompt === "function" ? {} : prompt),
+  } as DistinctQuestion;
+  if (sensitive !== true) {
+    return question;
+  }
+  // The default would reveal the value, so it is not used even if explicitly given
+  return {
+    ...question,
+    type: "password",
+    mask: "*",
+    default: undefined,
+  } as DistinctQuestion;
+};
+
+/**
+ * Gets the `inquirer` prompt specification for given property of input specification, like {@link getPrompt}, but first invokes the `prompt` if it is a callback.
+ * @param propertyName The name of the property of input specification.
+ * @param spec The {@link inputSpec.ValidationSpec}.
+ * @param dynamicValueInput The dynamic value input, if available.
+ * @returns Asynchronously returns the `inquirer` prompt specification.
+ * @throws If `prompt` is a callback, but dynamic value input is not available.
+ */
+export const resolvePrompt = async <TDynamicValueInput>(
+  propertyName: string,
+  spec: inputSpec.ValidationSpec<TDynamicValueInput>,
+  dynamicValueInput: O.Option<TDynamicValueInput>,
+): Promise<DistinctQuestion> => {
+  const { prompt } = spec;
+  return getPrompt(
+    propertyName,
+    typeof prompt === "function"
+      ? { ...spec, prompt: await prompt(O.getOrThrow(dynamicValueInput)) }
+      : spec,
+  );
+};
+
+type LiteralChoice = string | number | boolean;
+
+const inferPrompt = (ast: AST.AST): Partial<DistinctQuestion> => {
+  const unwrapped = unwrap(ast);
+  const choices = getLiteralChoices(unwrapped);
+  if (O.isSome(choices)) {
+    return { type: "list", choices: choices.value.map(toChoice) };
+  }
+  switch (unwrapped._tag) {
+    case "BooleanKeyword":
+      return { type: "confirm" };
+    case "NumberKeyword":
+      return { type: "number" };
+    case "Tuple":
+      return inferArrayPrompt(unwrapped);
+    default:
+      return { type: "input" };
+  }
+};
+
+const inferArrayPrompt = ({
+  elements,
+  rest,
+}: AST.Tuple): Partial<DistinctQuestion> =>
+  O.match(
+    O.flatMap(
+      O.filter(
+        rest,
+        (restTypes) => elements.length === 0 && restTypes.length === 1,
+      ),
+      (restTypes) => getLiteralChoices(unwrap(restTypes[0])),
+    ),
+    {
+      onNone: () => ({ type: "input" }),
+      onSome: (choices) => ({
+        type: "checkbox",
+        choices: choices.map(toChoice),
+      }),
+    },
+  );
+
+// Refinements do not affect the prompt, and transformations are prompted using their "from" side
+const unwrap = (ast: AST.AST): AST.AST =>
+  ast._tag === "Refinement" || ast._tag === "Transform"
+    ? unwrap(ast.from)
+    : ast;
+
+const getLiteralChoices = (
+  ast: AST.AST,
+): O.Option<ReadonlyArray<LiteralChoice>> => {
+  switch (ast._tag) {
+    case "Literal":
+      return isLiteralChoice(ast.literal) ? O.some([ast.literal]) : O.none();
+    case "Enums":
+      return O.some(ast.enums.map(([, value]) => value));
+    case "Union": {
+      const choices = ast.types.map((type) => getLiteralChoices(unwrap(type)));
+      return choices.every(O.isSome)
+        ? O.some(choices.flatMap((choice) => choice.value))
+        : O.none();
+    }
+    default:
+      return O.none();
+  }
+};
+
+const isLiteralChoice = (literal: AST.LiteralValue): literal is LiteralChoice =>
+  typeof literal === "string" ||
+  typeof literal === "number" ||
+  typeof literal === "boolean";
+
+const toChoice = (value: LiteralChoice) => ({ name: String(value), value });
+
+// The keywords (e.g. S.string) have their name as title, and built-in refinements (e.g. S.nonEmpty) have their generic description, so skip those
+const getMessage = (ast: AST.AST): O.Option<string> =>
+  O.orElse(
+    O.orElse(
+      ast._tag.endsWith("Keyword")
+        ? O.none()
+        : getStringAnnotation(AST.TitleAnnotationId)(ast),
+      () =>
+        O.isSome(AST.getAnnotation(AST.TypeAnnotationId)(ast))
+          ? O.none()
+          : getStringAnnotation(AST.DescriptionAnnotationId)(ast),
+    ),
+    () =>
+      ast._tag === "Refinement" || ast._tag === "Transform"
+        ? getMessage(ast.from)
+        : O.none(),
+  );
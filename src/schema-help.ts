@@ -0,0 +1,152 @@
+/**
+ * @file This file contains code related to rendering `@effect/schema` AST nodes as human-readable text, used when generating help text.
+ */
+import * as O from "@effect/data/Option";
+import * as AST from "@effect/schema/AST";
+
+/**
+ * Renders given `@effect/schema` AST node as human-readable text, e.g. `"yarn"|"npm"` or `string (a string at least 1 character(s) long)`.
+ * Refinements are rendered along with their title or description, and transformations are rendered using their "from" side, as that is what user will actually type.
+ * Never throws: the AST nodes which can not be rendered in more detail are rendered using their identifier or title annotation, or as `unknown`.
+ * @param ast The `@effect/schema` AST node, typically `schema.ast`.
+ * @returns The textual representation of the AST node.
+ */
+const schemaToHelpText = (ast: AST.AST): string => {
+  switch (ast._tag) {
+    case "Union":
+      return unionToHelpText(ast);
+    case "Literal":
+      return literalToHelpText(ast.literal);
+    case "UniqueSymbol":
+      return String(ast.symbol);
+    case "UndefinedKeyword":
+      return "undefined";
+    case "VoidKeyword":
+      return "void";
+    case "NeverKeyword":
+      return "never";
+    case "UnknownKeyword":
+      return "unknown";
+    case "AnyKeyword":
+      return "any";
+    case "StringKeyword":
+      return "string";
+    case "NumberKeyword":
+      return "number";
+    case "BooleanKeyword":
+      return "boolean";
+    case "BigIntKeyword":
+      return "bigint";
+    case "SymbolKeyword":
+      return "symbol";
+    case "ObjectKeyword":
+      return "object";
+    case "Enums":
+      return ast.enums.map(([, value]) => literalToHelpText(value)).join("|");
+    case "TemplateLiteral":
+      return `\`${ast.head}${ast.spans
+        .map(({ type, literal }) => `\${${schemaToHelpText(type)}}${literal}`)
+        .join("")}\``;
+    case "Tuple":
+      return tupleToHelpText(ast);
+    case "TypeLiteral":
+      return typeLiteralToHelpText(ast);
+    case "Refinement":
+      return refinementToHelpText(ast);
+    case "Transform":
+      // The user will give the value of the "from" side, e.g. string for NumberFromString
+      return schemaToHelpText(ast.from);
+    case "Declaration":
+    case "Lazy":
+      return getNameAnnotation(ast);
+    default:
+      // In case newer versions of @effect/schema add new AST nodes
+      return getNameAnnotation(ast as AST.Annotated);
+  }
+};
+
+export default schemaToHelpText;
+
+const unionToHelpText = ({ types }: AST.Union) => {
+  const definedTypes = types.filter(
+    ({ _tag }) => _tag !== "UndefinedKeyword" && _tag !== "VoidKeyword",
+  );
+  const text = definedTypes.map(schemaToHelpText).join("|");
+  return definedTypes.length < types.length ? `${text} (optional)` : text;
+};
+
+const literalToHelpText = (literal: AST.LiteralValue) =>
+  typeof literal === "string"
+    ? `"${literal}"`
+    : typeof literal === "bigint"
+    ? `${literal}n`
+    : `${literal}`;
+
+const tupleToHelpText = ({ elements, rest }: AST.Tuple) => {
+  const restTypes = O.getOrElse(rest, () => []);
+  if (elements.length === 0 && restTypes.length === 1) {
+    return `Array<${schemaToHelpText(restTypes[0])}>`;
+  }
+  return `[${[
+    ...elements.map(
+      ({ type, isOptional }) =>
+        `${schemaToHelpText(type)}${isOptional ? "?" : ""}`,
+    ),
+    ...restTypes.map((type, idx) =>
+      idx === 0
+        ? `...Array<${schemaToHelpText(type)}>`
+        : schemaToHelpText(type),
+    ),
+  ].join(", ")}]`;
+};
+
+const typeLiteralToHelpText = ({
+  propertySignatures,
+  indexSignatures,
+}: AST.TypeLiteral) =>
+  `{ ${[
+    ...propertySignatures.map(
+      ({ name, isOptional, type }) =>
+        `${String(name)}${isOptional ? "?" : ""}: ${schemaToHelpText(type)}`,
+    ),
+    ...indexSignatures.map(
+      ({ parameter, type }) =>
+        `[x: ${schemaToHelpText(parameter)}]: ${schemaToHelpText(type)}`,
+    ),
+  ].join("; ")} }`;
+
+const refinementToHelpText = (ast: AST.Refinement) => {
+  const from = schemaToHelpText(ast.from);
+  const annotations = [
+    O.orElse(getStringAnnotation(AST.TitleAnnotationId)(ast), () =>
+      getStringAnnotation(AST.DescriptionAnnotationId)(ast),
+    ),
+    O.map(
+      AST.getAnnotation<AST.ExamplesAnnotation>(AST.ExamplesAnnotationId)(ast),
+      (examples) =>
+        `e.g. ${examples
+          .map((example) => JSON.stringify(example) ?? String(example))
+          .join(", ")}`,
+    ),
+  ].flatMap((annotation) => (O.isSome(annotation) ? [annotation.value] : []));
+  return annotations.length > 0 ? `${from} (${annotations.join("; ")})` : from;
+};
+
+const getNameAnnotation = (ast: AST.Annotated) =>
+  O.getOrElse(
+    O.orElse(getStringAnnotation(AST.IdentifierAnnotationId)(ast), () =>
+      getStringAnnotation(AST.TitleAnnotationId)(ast),
+    ),
+    () => "unknown",
+  );
+
+/**
+ * Gets the annotation of given AST node, if it is a string.
+ * @param key The annotation ID, e.g. {@link AST.TitleAnnotationId}.
+ * @returns The callback to get the annotation from AST node.
+ */
+export const getStringAnnotation = (key: string) => (ast: AST.Annotated) =>
+  O.filter(
+    AST.getAnnotation<unknown>(key)(ast),
+    (annotation): annotation is string => typeof annotation === "string",
+  );
@@ -0,0 +1,116 @@
+/**
+ * @file This file contains code related to sensitive properties of input specification, the values of which are masked in prompts, redacted from printed messages and errors, and never recorded.
+ */
+import * as fs from "node:fs";
+import * as O from "@effect/data/Option";
+import * as inputSpec from "./input-spec";
+import type * as sources from "./sources";
+
+/**
+ * The text shown in place of the value of sensitive property.
+ */
+export const REDACTED = "<redacted>";
+
+/**
+ * The file path which, when given to the file flag of sensitive property, makes the value to be read from standard input.
+ * @see getFileFlagName
+ */
+export const STDIN_PATH = "-";
+
+/**
+ * Checks whether given property of input specification is sensitive, see {@link inputSpec.ValidationSpec.sensitive}.
+ * @param stage The property of input specification, or `undefined` if the property does not exist.
+ * @returns `true` if the property is {@link inputSpec.ValidationSpec} marked as sensitive, `false` otherwise.
+ */
+export const isSensitive = (
+  stage: inputSpec.InputSpecBase[string] | undefined,
+): stage is inputSpec.ValidationSpecBase =>
+  stage?.type === inputSpec.TYPE_VALIDATE && stage.sensitive === true;
+
+/**
+ * Gets the name of the CLI flag, via which the value of sensitive property can be read from file, e.g. `tokenFile` (which is `--token-file` on command line) for property `token`.
+ * @param propertyName The name of the property of input specification.
+ * @returns The name of the file flag.
+ */
+export const getFileFlagName = (propertyName: string) => `${propertyName}File`;
+
+/**
+ * Replaces the value with {@link REDACTED}, if given property of input specification is sensitive.
+ * @param stage The property of input specification.
+ * @param value The value of the property.
+ * @returns The {@link REDACTED} if the property is sensitive, otherwise the value as-is.
+ */
+export const redactValue = (
+  stage: inputSpec.InputSpecBase[string] | undefined,
+  value: unknown,
+): unknown => (isSensitive(stage) ? REDACTED : value);
+
+/**
+ * Redacts the value from the message, if given property of input specification is sensitive.
+ * This is used for error messages of schemas and input validators, which might quote the offending value.
+ * The quoted occurrences of the value, e.g. `"tk_secret"`, are replaced with {@link REDACTED}.
+ * If the value still occurs elsewhere in the message, e.g. unquoted or as part of other words, the whole message is replaced with {@link REDACTED}, so that short values never leak, and the message is never partially shredded.
+ * @param stage The property of input specification.
+ * @param message The message to redact.
+ * @param value The value of the property, possibly list of items, and possibly not yet decoded.
+ * @returns The message with the value redacted, if the property is sensitive, otherwise the message as-is.
+ */
+export const redactMessage = (
+  stage: inputSpec.InputSpecBase[string] | undefined,
+  message: string,
+  value: unknown,
+) => {
+  if (!isSensitive(stage)) {
+    return message;
+  }
+  const redacted = getValueTexts(value, (item) => JSON.stringify(item))
+    // Replace longer texts first, so that e.g. quoted list is replaced as a whole
+    .sort((x, y) => y.length - x.length)
+    .reduce((result, text) => result.split(text).join(REDACTED), message);
+  return getValueTexts(value, String).some((text) =>
+    redacted.split(REDACTED).some((part) => part.includes(text)),
+  )
+    ? REDACTED
+    : redacted;
+};
+
+/**
+ * Creates {@link sources.ValueSource} which will read the values of sensitive properties from the files given via their file flags, see {@link getFileFlagName}.
+ * The trailing newline of the file contents is removed, and the file path {@link STDIN_PATH} reads the value from standard input.
+ * Each file is read only once, as standard input can not be read again.
+ * @param flags The parsed CLI flags.
+ * @param readFile The callback to read the contents of the file, by default reading it synchronously from file system.
+ * @returns The {@link sources.ValueSource} for files of sensitive properties.
+ * @throws If reading the file fails, when the returned source is invoked.
+ */
+export const createFileSource = (
+  flags: Readonly<Record<string, unknown>>,
+  readFile: (filePath: string) => string = readFileOrStdin,
+): sources.ValueSource => {
+  const contents = new Map<string, string>();
+  return (propertyName, stage) => {
+    const filePath = flags[getFileFlagName(propertyName)];
+    if (!isSensitive(stage) || typeof filePath !== "string") {
+      return O.none();
+    }
+    const value =
+      contents.get(filePath) ?? readFile(filePath).replace(/\r?\n$/, "");
+    contents.set(filePath, value);
+    return O.some({ value, origin: { type: "file", filePath } });
+  };
+};
+
+// Gets the texts of the value and its items, if the value is list
+const getValueTexts = (
+  value: unknown,
+  toText: (item: unknown) => string | undefined,
+): Array<string> =>
+  [
+    toText(value) ?? "",
+    ...(Array.isArray(value)
+      ? value.flatMap((item) => getValueTexts(item, toText))
+      : []),
+  ].filter((text) => text.length > 0);
+
+const readFileOrStdin = (filePath: string) =>
+  fs.readFileSync(filePath === STDIN_PATH ? 0 : filePath, "utf8");
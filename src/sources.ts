@@ -0,0 +1,287 @@
+/**
+ * @file This file contains types and functions related to sources of values, which are consulted before prompting the value from user.
+ * Currently, the sources are CLI arguments, files of sensitive properties, replayed answers file, environment variables, and configuration file.
+ */
+import * as E from "@effect/data/Either";
+import * as O from "@effect/data/Option";
+import type * as inputSpec from "./input-spec";
+import type * as configFile from "./config-file";
+import type * as answers from "./answers";
+import * as positionals from "./positionals";
+import * as secrets from "./secrets";
+import * as validator from "./validator-adapter";
+
+/**
+ * This type is union of all the origins of the value of single property of input specification.
+ * The `type` property acts as discriminator.
+ */
+export type ValueOrigin =
+  | ValueOriginCLI
+  | ValueOriginAnswers
+  | ValueOriginEnv
+  | ValueOriginConfig
+  | ValueOriginFile;
+
+/**
+ * This interface represents the origin of the value which was supplied via CLI arguments.
+ */
+export interface ValueOriginCLI {
+  /**
+   * The discriminating type union -property which identifies the origin to be CLI arguments.
+   */
+  type: "cli";
+  /**
+   * Whether the value was supplied via CLI flag (`true`) or as positional CLI argument (`false`).
+   */
+  isFlag: boolean;
+}
+
+/**
+ * This interface represents the origin of the value which was supplied via replayed answers file.
+ */
+export interface ValueOriginAnswers {
+  /**
+   * The discriminating type union -property which identifies the origin to be answers file.
+   */
+  type: "answers";
+  /**
+   * The path of the answers file.
+   */
+  filePath: string;
+}
+
+/**
+ * This interface represents the origin of the value which was supplied via environment variable.
+ */
+export interface ValueOriginEnv {
+  /**
+   * The discriminating type union -property which identifies the origin to be environment variable.
+   */
+  type: "env";
+  /**
+   * The name of the environment variable.
+   */
+  variableName: string;
+}
+
+/**
+ * This interface represents the origin of the value which was supplied via configuration file.
+ */
+export interface ValueOriginConfig {
+  /**
+   * The discriminating type union -property which identifies the origin to be configuration file.
+   */
+  type: "config";
+  /**
+   * The path of the configuration file.
+   */
+  filePath: string;
+}
+
+/**
+ * This interface represents the origin of the value of sensitive property, which was read from the file given via CLI flag.
+ */
+export interface ValueOriginFile {
+  /**
+   * The discriminating type union -property which identifies the origin to be file of sensitive property.
+   */
+  type: "file";
+  /**
+   * The path of the file, as given via CLI flag, or {@link secrets.STDIN_PATH} for standard input.
+   */
+  filePath: string;
+}
+
+/**
+ * Gets the name of the environment variable to consult for given property of input specification.
+ * @param propertyName The name of the property of input specification.
+ * @param env The `env` property of {@link inputSpec.ValidationSpec}.
+ * @param envPrefix The prefix to use when `env` is `true`.
+ * @returns The name of the environment variable, or `undefined` if environment variable should not be consulted.
+ * @example
+ * ```ts
+ * getEnvVariableName("folderName", true, "MY_TOOL_"); // "MY_TOOL_FOLDER_NAME"
+ * getEnvVariableName("folderName", "TARGET_DIR", "MY_TOOL_"); // "TARGET_DIR"
+ * getEnvVariableName("folderName", undefined, "MY_TOOL_"); // undefined
+ * ```
+ */
+export const getEnvVariableName = (
+  propertyName: string,
+  env: inputSpec.ValidationSpecBase["env"],
+  envPrefix = "",
+) =>
+  env === true
+    ? `${envPrefix}${propertyName
+        .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+        .replace(/[^A-Za-z0-9]+/g, "_")
+        .toUpperCase()}`
+    : typeof env === "string"
+    ? env
+    : undefined;
+
+/**
+ * Gets the human-readable description of given {@link ValueOrigin}.
+ * @param origin The {@link ValueOrigin}.
+ * @returns The textual description of the origin.
+ */
+export const getOriginText = (origin: ValueOrigin) => {
+  switch (origin.type) {
+    case "cli":
+      return "CLI";
+    case "answers":
+      return `answers file "${origin.filePath}"`;
+    case "env":
+      return `environment variable "${origin.variableName}"`;
+    case "config":
+      return `configuration file "${origin.filePath}"`;
+    case "file":
+      return origin.filePath === secrets.STDIN_PATH
+        ? "standard input"
+        : `file "${origin.filePath}"`;
+  }
+};
+
+/**
+ * This type represents the callback to get the raw, not yet validated, value for single property of input specification from some source.
+ * It should return {@link O.none} if source does not contain the value for the property.
+ */
+export type ValueSource = (
+  propertyName: string,
+  spec: inputSpec.ValidationSpecBase,
+) => O.Option<SourceValue>;
+
+/**
+ * This interface represents the raw value returned by {@link ValueSource}, along with its origin.
+ */
+export interface SourceValue {
+  /**
+   * The raw value.
+   */
+  value: unknown;
+  /**
+   * The origin of the value.
+   */
+  origin: ValueOrigin;
+}
+
+/**
+ * Creates {@link ValueSource} which will get values from parsed CLI arguments.
+ * The value is taken from flags for properties with `flag` specified, and from positional arguments otherwise, see {@link inputSpec.ValidationSpec.positional}.
+ * @param cliArgs The parsed CLI arguments.
+ * @param cliArgs.flags Privately deconstructed property.
+ * @param cliArgs.input Privately deconstructed property.
+ * @param restStartIndex The index of first positional argument for property capturing the rest of the positional arguments, see {@link positionals.getRestStartIndex}.
+ * @returns The {@link ValueSource} for CLI arguments.
+ */
+export const createCLISource =
+  (
+    {
+      flags,
+      input,
+    }: {
+      flags: Readonly<Record<string, unknown>>;
+      input: ReadonlyArray<string>;
+    },
+    restStartIndex: number,
+  ): ValueSource =>
+  (propertyName, { flag, positional }) =>
+    O.map(
+      O.filter(
+        O.fromNullable(
+          flag !== undefined
+            ? flags[propertyName]
+            : positionals.getPositionalValue(input, positional, restStartIndex),
+        ),
+        // The multiple flags which are not given at all are empty arrays
+        (value) => !Array.isArray(value) || value.length > 0,
+      ),
+      (value) => ({
+        value,
+        origin: { type: "cli", isFlag: flag !== undefined },
+      }),
+    );
+
+/**
+ * Creates {@link ValueSource} which will get values from environment variables, for the properties which specify `env`.
+ * Because environment variables are always strings, the value will be parsed as JSON, if the string itself can not be decoded via the schema of the property.
+ * @param env The environment variables, typically `process.env`.
+ * @param envPrefix The prefix of environment variable names, see {@link getEnvVariableName}.
+ * @returns The {@link ValueSource} for environment variables.
+ */
+export const createEnvSource =
+  (
+    env: Readonly<Record<string, string | undefined>>,
+    envPrefix: string | undefined,
+  ): ValueSource =>
+  (propertyName, spec) => {
+    const variableName = getEnvVariableName(propertyName, spec.env, envPrefix);
+    return variableName === undefined
+      ? O.none()
+      : O.map(O.fromNullable(env[variableName]), (rawValue) => ({
+          value: parseRawValue(spec.schema, rawValue),
+          origin: { type: "env", variableName },
+        }));
+  };
+
+/**
+ * Creates {@link ValueSource} which will get values from configuration file.
+ * @param config The {@link configFile.ConfigFile}.
+ * @param config.filePath Privately deconstructed property.
+ * @param config.values Privately deconstructed property.
+ * @returns The {@link ValueSource} for configuration file.
+ */
+export const createConfigSource = ({
+  filePath,
+  values,
+}: configFile.ConfigFile): ValueSource =>
+  createRecordSource(values, { type: "config", filePath });
+
+/**
+ * Creates {@link ValueSource} which will get values from answers file recorded during earlier input collection.
+ * @param answersFile The {@link answers.AnswersFile}.
+ * @param answersFile.filePath Privately deconstructed property.
+ * @param answersFile.values Privately deconstructed property.
+ * @returns The {@link ValueSource} for answers file.
+ */
+export const createAnswersSource = ({
+  filePath,
+  values,
+}: answers.AnswersFile): ValueSource =>
+  createRecordSource(values, { type: "answers", filePath });
+
+/**
+ * Parses the given string as JSON, if the string itself can not be decoded via given schema, e.g. `"3"` for `S.number`.
+ * This is used for values which are always given as strings, like environment variables.
+ * @param schema The {@link validator.SchemaBase}.
+ * @param rawValue The string value.
+ * @returns The string value as-is, if it can be decoded via schema or it is not valid JSON, otherwise the parsed JSON value.
+ */
+export const parseRawValue = (
+  schema: validator.SchemaBase,
+  rawValue: string,
+): unknown => {
+  if (E.isRight(validator.decode(schema, rawValue))) {
+    return rawValue;
+  }
+  try {
+    return JSON.parse(rawValue);
+  } catch {
+    // Let the schema validation produce the error
+    return rawValue;
+  }
+};
+
+const createRecordSource =
+  (
+    values: Readonly<Record<string, unknown>>,
+    origin: ValueOrigin,
+  ): ValueSource =>
+  (propertyName) =>
+    O.map(
+      O.fromNullable(
+        Object.prototype.hasOwnProperty.call(values, propertyName)
+          ? values[propertyName]
+          : undefined,
+      ),
+      (value) => ({ value, origin }),
+    );
@@ -0,0 +1,340 @@
+/**
+ * @file This file contains code related to testing CLI programs built with this library, driving the whole input collection without TTY.
+ */
+import * as E from "@effect/data/Either";
+import createCLIArgs from "./cli-args";
+import collectInput, * as collect from "./collect-input";
+import * as print from "./print";
+import * as prompter from "./prompter";
+import createCommands, * as subcommands from "./commands";
+import type * as inputSpec from "./input-spec";
+import omitUndefined from "./omit-undefined";
+
+/**
+ * Runs the whole input collection the same way as `createCLIArgsAndCollectInput` does: parses given CLI arguments, collects the values from them, given environment variables, and scripted answers, and validates the result.
+ * Instead of printing to console and prompting from TTY, the printed events and asked prompts are captured and returned, so that they can be asserted in tests.
+ *
+ * To keep the tests independent of the current directory, the configuration file is not discovered, but it can still be given via `--config` CLI argument.
+ * The `--help` and `--version` flags do not exit the process, but are parsed like other unknown flags.
+ * @param parameters The {@link TestCLIParameters}.
+ * @param parameters.importMeta Privately deconstructed property.
+ * @param parameters.inputSpec Privately deconstructed property.
+ * @param parameters.argv Privately deconstructed property.
+ * @param parameters.env Privately deconstructed property.
+ * @param parameters.answers Privately deconstructed property.
+ * @param parameters.inputValidator Privately deconstructed property.
+ * @param parameters.getDynamicValueInput Privately deconstructed property.
+ * @param parameters.envPrefix Privately deconstructed property.
+ * @param parameters.review Privately deconstructed property.
+ * @param parameters.backAnswer Privately deconstructed property.
+ * @param parameters.maxAttempts Privately deconstructed property.
+ * @param parameters.maxAttemptsPerProperty Privately deconstructed property.
+ * @param parameters.signal Privately deconstructed property.
+ * @returns Asynchronously returns {@link TestCLIResult}.
+ * @example
+ * ```ts
+ * const { validatedInput, prompts } = await mi.testCLI({
+ *   importMeta: import.meta,
+ *   inputSpec,
+ *   argv: ["--package-manager", "yarn"],
+ *   answers: ["./my-project"],
+ *   inputValidator: (input) => Promise.resolve(input),
+ * });
+ * // validatedInput is E.right({ packageManager: "yarn", folderName: "./my-project" })
+ * // prompts contains the prompt of "folderName"
+ * ```
+ */
+export default async <
+  TInputSpec extends inputSpec.InputSpecBase,
+  TValidatedInput,
+>({
+  importMeta,
+  inputSpec,
+  argv = [],
+  env = {},
+  answers = [],
+  inputValidator,
+  getDynamicValueInput = () => undefined,
+  envPrefix,
+  review,
+  backAnswer,
+  maxAttempts,
+  maxAttemptsPerProperty,
+  signal,
+}: TestCLIParameters<TInputSpec, TValidatedInput>): Promise<
+  TestCLIResult<TValidatedInput>
+> => {
+  const events: Array<print.PrintEvent> = [];
+  const prompts: Array<prompter.PromptRequest> = [];
+  const scripted = prompter.createScriptedPrompter(answers);
+  let validatedInput: TestCLIResult<TValidatedInput>["validatedInput"];
+  try {
+    const {
+      cliArgs: parsedArgs,
+      isInteractive,
+      config,
+      answers: answersFile,
+      saveAnswers,
+    } = await createCLIArgs({
+      importMeta,
+      inputSpec,
+      argv,
+      // The CI environment is detected from given environment variables, not the ones of test runner
+      env,
+      configFile: { fileNames: [] },
+      inputSpecValidation: { getDynamicValueInput },
+      // The process must not exit within test runner
+      autoHelp: false,
+      autoVersion: false,
+      ...omitUndefined({ envPrefix }),
+    });
+    validatedInput = E.right(
+      await collectInput(inputSpec)({
+        cliArgs: parsedArgs,
+        inputValidator,
+        getDynamicValueInput,
+        prompter: (request) => (prompts.push(request), scripted(request)),
+        printer: (event) => events.push(event),
+        isInteractive,
+        env,
+        ...omitUndefined({
+          envPrefix,
+          config,
+          answers: answersFile,
+          saveAnswers,
+          review,
+          backAnswer,
+          maxAttempts,
+          maxAttemptsPerProperty,
+          signal,
+        }),
+      }),
+    );
+  } catch (error) {
+    validatedInput = E.left(error);
+  }
+  return {
+    validatedInput,
+    events,
+    messages: events.map(print.getDefaultText),
+    prompts,
+  };
+};
+
+/**
+ * This interface contains parameters for running input collection in tests.
+ */
+export interface TestCLIParameters<
+  TInputSpec extends inputSpec.InputSpecBase,
+  TValidatedInput,
+> {
+  /**
+   * The {@link ImportMeta} of the test module, used to find the `package.json` of the CLI program.
+   */
+  importMeta: ImportMeta;
+  /**
+   * The input specification.
+   */
+  inputSpec: TInputSpec;
+  /**
+   * The CLI arguments, without the node executable and script path.
+   * By default, no CLI arguments are given.
+   */
+  argv?: ReadonlyArray<string>;
+  /**
+   * The environment variables, used instead of `process.env`.
+   * By default, no environment variables are given.
+   */
+  env?: Readonly<Record<string, string | undefined>>;
+  /**
+   * The answers to prompts, in the order the prompts are asked.
+   * The answers which do not pass validation cause the property to be prompted again, just like user would type the answer again, and count as attempts.
+   * If the answers run out, the input collection fails.
+   * @see prompter.createScriptedPrompter
+   */
+  answers?: ReadonlyArray<unknown>;
+  /**
+   * The callback to perform final validation of the collected input.
+   */
+  inputValidator: collect.InputValidator<TInputSpec, TValidatedInput>;
+  /**
+   * The callback to get dynamic value input.
+   * By default, returns `undefined`.
+   */
+  getDynamicValueInput?: collect.GetDynamicValueArg<TInputSpec>;
+  /**
+   * The prefix of the names of environment variables.
+   */
+  envPrefix?: string;
+  /**
+   * Set this to `true` to enable the review step, which is then answered from `answers` like other prompts: `true` to confirm, or name of the property to re-enter.
+   */
+  review?: boolean;
+  /**
+   * The answer which makes input collection go back to previous prompt, which can then be given in `answers` like other answers.
+   * By default, going back is disabled.
+   */
+  backAnswer?: string;
+  /**
+   * The maximum number of times the collected input is validated, before input collection stops.
+   * @see collect.BuildValidatedInputParameters
+   */
+  maxAttempts?: number;
+  /**
+   * The maximum number of times the value of single property is prompted, before input collection stops.
+   * @see collect.BuildValidatedInputParameters
+   */
+  maxAttemptsPerProperty?: number;
+  /**
+   * The signal to cancel the input collection.
+   * @see collect.BuildValidatedInputParameters
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * This interface contains the result of running input collection in tests.
+ */
+export interface TestCLIResult<TValidatedInput> {
+  /**
+   * The validated input, or the error thrown during input collection, e.g. `NonInteractiveInputError`.
+   */
+  validatedInput: E.Either<unknown, TValidatedInput>;
+  /**
+   * All the events emitted to printer, in order.
+   */
+  events: ReadonlyArray<print.PrintEvent>;
+  /**
+   * The texts of the events, as they would be printed by default printer.
+   */
+  messages: ReadonlyArray<string>;
+  /**
+   * All the prompts which were asked, in order.
+   */
+  prompts: ReadonlyArray<prompter.PromptRequest>;
+}
+
+/**
+ * Runs the input collection of CLI program with subcommands the same way as `createCommandsAndCollectInput` does, capturing the printed events and asked prompts like {@link default} does.
+ * The `--help` and `--version` flags do not exit the process, and unknown command causes `UnknownCommandError` to be returned as error instead of exiting the process.
+ *
+ * The prompts are answered from `answers`, unless `--no-interactive` is given in `argv`.
+ * @param parameters The {@link TestCommandsParameters}.
+ * @param parameters.importMeta Privately deconstructed property.
+ * @param parameters.commands Privately deconstructed property.
+ * @param parameters.globalInputSpec Privately deconstructed property.
+ * @param parameters.argv Privately deconstructed property.
+ * @param parameters.env Privately deconstructed property.
+ * @param parameters.answers Privately deconstructed property.
+ * @param parameters.envPrefix Privately deconstructed property.
+ * @returns Asynchronously returns {@link TestCommandsResult}.
+ * @example
+ * ```ts
+ * const { result } = await mi.testCommands({
+ *   importMeta: import.meta,
+ *   commands,
+ *   argv: ["add", "--name", "my-package"],
+ * });
+ * // result is E.right({ command: "add", validatedInput: { name: "my-package" }, ... })
+ * ```
+ */
+export const testCommands = async <
+  TCommands extends subcommands.CommandsBase,
+  TGlobalInputSpec extends inputSpec.InputSpecBase = Record<string, never>,
+>({
+  importMeta,
+  commands,
+  globalInputSpec,
+  argv = [],
+  env = {},
+  answers = [],
+  envPrefix,
+}: TestCommandsParameters<TCommands, TGlobalInputSpec>): Promise<
+  TestCommandsResult<TCommands, TGlobalInputSpec>
+> => {
+  const events: Array<print.PrintEvent> = [];
+  const prompts: Array<prompter.PromptRequest> = [];
+  const scripted = prompter.createScriptedPrompter(answers);
+  let result: TestCommandsResult<TCommands, TGlobalInputSpec>["result"];
+  try {
+    result = E.right(
+      await createCommands<TCommands, TGlobalInputSpec>({
+        importMeta,
+        commands,
+        argv,
+        env,
+        configFile: { fileNames: [] },
+        // The process must not exit within test runner
+        autoHelp: false,
+        autoVersion: false,
+        prompter: (request) => (prompts.push(request), scripted(request)),
+        printer: (event) => events.push(event),
+        ...omitUndefined({ globalInputSpec, envPrefix }),
+      }),
+    );
+  } catch (error) {
+    result = E.left(error);
+  }
+  return {
+    result,
+    events,
+    messages: events.map(print.getDefaultText),
+    prompts,
+  };
+};
+
+/**
+ * This interface contains parameters for running input collection of CLI program with subcommands in tests.
+ */
+export interface TestCommandsParameters<
+  TCommands extends subcommands.CommandsBase,
+  TGlobalInputSpec extends inputSpec.InputSpecBase,
+> {
+  /**
+   * The {@link ImportMeta} of the test module, used to find the `package.json` of the CLI program.
+   */
+  importMeta: ImportMeta;
+  /**
+   * The commands, keys being the names of the commands.
+   */
+  commands: TCommands;
+  /**
+   * The optional input specification, which is shared by all the commands.
+   */
+  globalInputSpec?: TGlobalInputSpec;
+  /**
+   * The CLI arguments, including the name of the command, without the node executable and script path.
+   * By default, no CLI arguments are given.
+   */
+  argv?: ReadonlyArray<string>;
+  /**
+   * The environment variables, used instead of `process.env`.
+   * By default, no environment variables are given.
+   */
+  env?: Readonly<Record<string, string | undefined>>;
+  /**
+   * The answers to prompts, in the order the prompts are asked.
+   * @see TestCLIParameters.answers
+   */
+  answers?: ReadonlyArray<unknown>;
+  /**
+   * The prefix of the names of environment variables.
+   */
+  envPrefix?: string;
+}
+
+/**
+ * This interface contains the result of running input collection of CLI program with subcommands in tests.
+ */
+export interface TestCommandsResult<
+  TCommands extends subcommands.CommandsBase,
+  TGlobalInputSpec extends inputSpec.InputSpecBase,
+> extends Omit<TestCLIResult<never>, "validatedInput"> {
+  /**
+   * The {@link subcommands.CommandResult}, or the error thrown during input collection, e.g. `UnknownCommandError`.
+   */
+  result: E.Either<
+    unknown,
+    subcommands.CommandResult<TCommands, TGlobalInputSpec>
+  >;
+}
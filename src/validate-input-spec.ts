@@ -0,0 +1,234 @@
+/**
+ * @file This file contains code related to finding definition mistakes in input specification, e.g. duplicate short flags.
+ */
+import type { AnyFlag } from "meow";
+import * as inputSpec from "./input-spec";
+import type * as errors from "./errors";
+import type * as collect from "./collect-input";
+import * as flags from "./flags";
+import * as groups from "./groups";
+import * as secrets from "./secrets";
+
+/**
+ * Finds definition mistakes in given input specification:
+ * - properties of groups colliding with other properties once prefixed with the name of the group, e.g. `host` of group `db` with property `dbHost`,
+ * - several properties using same short flag, flag name, or flag alias, including the file flags of sensitive properties,
+ * - several properties using same `orderNumber`, making their order ambiguous,
+ * - several flag-less properties competing for same positional argument,
+ * - flag names or aliases colliding with reserved flags, e.g. `help` and `version` of `meow`,
+ * - explicit flag definitions not compatible with schema, and
+ * - properties needing dynamic value input before it is available, if `getDynamicValueInput` is given.
+ *
+ * This function is run automatically by `createCLIArgs`, unless disabled.
+ * @param nestedSpec The input specification.
+ * @param options The {@link ValidateInputSpecOptions}.
+ * @returns The {@link errors.InputSpecDiagnostic}s, or empty array if input specification has no mistakes.
+ */
+export default <TInputSpec extends inputSpec.InputSpecBase>(
+  nestedSpec: TInputSpec,
+  options: ValidateInputSpecOptions<TInputSpec> = {},
+): Array<errors.InputSpecDiagnostic> => {
+  // The properties of groups are checked by their prefixed names
+  const spec = groups.flattenInputSpec(nestedSpec);
+  const entries = Object.entries(spec);
+  const validationEntries = entries.filter(
+    (entry): entry is [string, inputSpec.ValidationSpecBase] =>
+      entry[1].type === inputSpec.TYPE_VALIDATE,
+  );
+  const flagEntries = validationEntries.flatMap(([propertyName, stage]) => {
+    const flag = getFlagOrUndefined(propertyName, stage);
+    return flag === undefined ? [] : [[propertyName, flag] as const];
+  });
+  return [
+    ...getDuplicates(
+      "duplicatePropertyName",
+      Object.entries(nestedSpec).map(([propertyName, stage]) => [
+        propertyName,
+        stage.type === inputSpec.TYPE_GROUP
+          ? Object.keys(stage.properties).map((groupPropertyName) =>
+              groups.getGroupPropertyName(propertyName, groupPropertyName),
+            )
+          : [propertyName],
+      ]),
+    ),
+    ...getDuplicates(
+      "duplicateShortFlag",
+      flagEntries.map(([propertyName, { shortFlag }]) => [
+        propertyName,
+        shortFlag === undefined ? [] : [shortFlag],
+      ]),
+    ),
+    ...getDuplicates("duplicateFlagName", [
+      ...flagEntries.map(
+        ([propertyName, { aliases }]) =>
+          [
+            propertyName,
+            [propertyName, ...(aliases ?? [])].map(flags.getFlagName),
+          ] as const,
+      ),
+      // The file flags of sensitive properties must not collide with other flags either
+      ...validationEntries
+        .filter(([, stage]) => secrets.isSensitive(stage))
+        .map(
+          ([propertyName]) =>
+            [
+              propertyName,
+              [flags.getFlagName(secrets.getFileFlagName(propertyName))],
+            ] as const,
+        ),
+    ]),
+    ...getDuplicates(
+      "duplicateOrderNumber",
+      entries.map(([propertyName, { orderNumber }]) => [
+        propertyName,
+        [orderNumber],
+      ]),
+    ),
+    ...getDuplicates(
+      "duplicatePosition",
+      validationEntries.map(([propertyName, { flag, positional }]) => [
+        propertyName,
+        flag === undefined ? [positional ?? 0] : [],
+      ]),
+    ),
+    ...getReservedFlags(
+      flagEntries,
+      [...DEFAULT_RESERVED_FLAGS, ...(options.reservedFlags ?? [])].map(
+        flags.getFlagName,
+      ),
+    ),
+    ...getIncompatibleFlags(validationEntries),
+    ...getMissingDynamicValues(spec, options.getDynamicValueInput),
+  ];
+};
+
+/**
+ * Finds the properties of given input specification, which have same names as properties of global input specification, once the groups are flattened.
+ * Such properties can not be merged, as the property of one specification would silently replace the other.
+ * @param globalInputSpec The global input specification, e.g. shared by all commands.
+ * @param nestedSpec The input specification, e.g. of single command.
+ * @returns The {@link errors.InputSpecDiagnosticGlobalPropertyCollision}s, or empty array if the names of properties do not collide.
+ */
+export const getGlobalPropertyCollisions = (
+  globalInputSpec: inputSpec.InputSpecBase,
+  nestedSpec: inputSpec.InputSpecBase,
+): Array<errors.InputSpecDiagnosticGlobalPropertyCollision> => {
+  const globalNames = Object.keys(groups.flattenInputSpec(globalInputSpec));
+  return Object.keys(groups.flattenInputSpec(nestedSpec))
+    .filter((propertyName) => globalNames.includes(propertyName))
+    .map((propertyName) => ({ kind: "globalPropertyCollision", propertyName }));
+};
+
+/**
+ * This interface contains options for validating input specification.
+ */
+export interface ValidateInputSpecOptions<
+  TInputSpec extends inputSpec.InputSpecBase = inputSpec.InputSpecBase,
+> {
+  /**
+   * The names of the flags which are reserved in addition to `help` and `version` of `meow`.
+   */
+  reservedFlags?: ReadonlyArray<string>;
+  /**
+   * The callback to get dynamic value input, used to check whether properties needing dynamic value input are processed only after it is available.
+   * If not given, this check is skipped.
+   * @see collect.GetDynamicValueArg
+   */
+  getDynamicValueInput?: collect.GetDynamicValueArg<TInputSpec>;
+}
+
+const DEFAULT_RESERVED_FLAGS = ["help", "version"];
+
+const getFlagOrUndefined = (
+  propertyName: string,
+  stage: inputSpec.ValidationSpecBase,
+) => {
+  try {
+    return flags.getFlag(propertyName, stage);
+  } catch {
+    // Will be reported by getIncompatibleFlags
+    return undefined;
+  }
+};
+
+const getDuplicates = <TKind extends string, TValue>(
+  kind: TKind,
+  valuesOfProperties: ReadonlyArray<readonly [string, ReadonlyArray<TValue>]>,
+): Array<errors.InputSpecDiagnosticDuplicate<TKind, TValue>> => {
+  const propertiesByValue = new Map<TValue, Array<string>>();
+  for (const [propertyName, values] of valuesOfProperties) {
+    for (const value of values) {
+      const propertyNames = propertiesByValue.get(value) ?? [];
+      if (!propertyNames.includes(propertyName)) {
+        propertyNames.push(propertyName);
+      }
+      propertiesByValue.set(value, propertyNames);
+    }
+  }
+  return Array.from(propertiesByValue.entries())
+    .filter(([, propertyNames]) => propertyNames.length > 1)
+    .map(([value, propertyNames]) => ({ kind, value, propertyNames }));
+};
+
+const getReservedFlags = (
+  flagEntries: ReadonlyArray<readonly [string, AnyFlag]>,
+  reservedFlags: ReadonlyArray<string>,
+): Array<errors.InputSpecDiagnosticReservedFlag> =>
+  flagEntries.flatMap(([propertyName, { aliases }]) =>
+    [propertyName, ...(aliases ?? [])]
+      .map(flags.getFlagName)
+      .filter((flagName) => reservedFlags.includes(flagName))
+      .map((flagName) => ({ kind: "reservedFlag", propertyName, flagName })),
+  );
+
+const getIncompatibleFlags = (
+  validationEntries: ReadonlyArray<[string, inputSpec.ValidationSpecBase]>,
+): Array<errors.InputSpecDiagnosticIncompatibleFlag> =>
+  validationEntries.flatMap(([propertyName, stage]) => {
+    try {
+      flags.getFlag(propertyName, stage);
+      return [];
+    } catch (e) {
+      return [
+        {
+          kind: "incompatibleFlag",
+          propertyName,
+          errorMessage: e instanceof Error ? e.message : String(e),
+        },
+      ];
+    }
+  });
+
+// The dynamic value input is first queried with no values, and then again after each collected value
+// So if it is not available initially, the properties needing it must come after at least one ValidationSpec
+const getMissingDynamicValues = <TInputSpec extends inputSpec.InputSpecBase>(
+  spec: inputSpec.InputSpecBase,
+  getDynamicValueInput: ValidateInputSpecOptions<TInputSpec>["getDynamicValueInput"],
+): Array<errors.InputSpecDiagnosticMissingDynamicValue> => {
+  if (
+    getDynamicValueInput === undefined ||
+    getDynamicValueInput({}) !== undefined
+  ) {
+    return [];
+  }
+  const ordered = Object.entries(spec).sort(
+    ([, x], [, y]) => x.orderNumber - y.orderNumber,
+  );
+  const firstValidationIndex = ordered.findIndex(
+    ([, stage]) => stage.type === inputSpec.TYPE_VALIDATE,
+  );
+  return ordered
+    .slice(
+      0,
+      firstValidationIndex < 0 ? ordered.length : firstValidationIndex + 1,
+    )
+    .filter(
+      ([, stage]) =>
+        stage.condition !== undefined ||
+        (stage.type === inputSpec.TYPE_MESSAGE
+          ? typeof stage.message === "function"
+          : stage.type === inputSpec.TYPE_VALIDATE &&
+            typeof stage.prompt === "function"),
+    )
+    .map(([propertyName]) => ({ kind: "missingDynamicValue", propertyName }));
+};
@@ -0,0 +1,240 @@
+/**
+ * @file This file contains code related to adapting validation libraries other than `@effect/schema` to be used as schemas of input specification.
+ */
+import * as F from "@effect/data/Function";
+import * as E from "@effect/data/Either";
+import * as O from "@effect/data/Option";
+import * as S from "@effect/schema/Schema";
+import type * as AST from "@effect/schema/AST";
+import type * as PR from "@effect/schema/ParseResult";
+import * as TF from "@effect/schema/TreeFormatter";
+import schemaToHelpText from "./schema-help";
+
+/**
+ * Wraps the schema of some validation library, so that it can be used as `schema` of `ValidationSpec`.
+ * The `From` and `To` types of the result are extracted from the schema via the {@link SchemaTypes} of the adapter, so that `InputFromCLIOrUser` type can be deduced as usual.
+ * @param adapter The {@link ValidatorAdapter} for the validation library.
+ * @param schema The schema of the validation library.
+ * @returns The {@link AdaptedSchema}, which can be used as `schema` of `ValidationSpec`.
+ * @example
+ * ```ts
+ * import { z } from "zod";
+ * import * as E from "@effect/data/Either";
+ * import * as mi from "meow-inquirer";
+ *
+ * interface ZodTypes extends mi.SchemaTypes {
+ *   readonly From: z.input<this["Schema"]>;
+ *   readonly To: z.output<this["Schema"]>;
+ * }
+ *
+ * const zodAdapter: mi.ValidatorAdapter<z.ZodTypeAny, z.ZodError, ZodTypes> = {
+ *   decode: (schema, value) => {
+ *     const result = schema.safeParse(value);
+ *     return result.success ? E.right(result.data) : E.left(result.error);
+ *   },
+ *   encode: (_, value) => E.right(value),
+ *   formatError: (error) => error.issues.map(({ message }) => message).join("\n"),
+ *   describe: (schema) => schema.description ?? "unknown",
+ * };
+ *
+ * // The type is AdaptedSchema<number, number>
+ * const count = mi.adaptSchema(zodAdapter, z.number().int());
+ * ```
+ */
+export const adaptSchema = <TSchema, TError, TTypes extends SchemaTypes>(
+  adapter: ValidatorAdapter<TSchema, TError, TTypes>,
+  schema: TSchema,
+): AdaptedSchema<From<TTypes, TSchema>, To<TTypes, TSchema>> => ({
+  [AdaptedSchemaTypeId]: AdaptedSchemaTypeId,
+  From: F.identity,
+  To: F.identity,
+  adapter,
+  schema,
+});
+
+/**
+ * This interface represents the adapter of validation library, which is used to validate the values of the input specification.
+ * The `@effect/schema` schemas are validated with {@link effectSchemaAdapter}, and other validation libraries can be used by implementing this interface, and then using {@link adaptSchema}.
+ * The {@link SchemaTypes} given as `TTypes` tell how to extract the types of the values accepted and produced by each schema.
+ */
+export interface ValidatorAdapter<
+  TSchema,
+  TError,
+  TTypes extends SchemaTypes = SchemaTypes,
+> {
+  /**
+   * Checks and decodes the value given by user, e.g. turning timestamp string into `Date` object.
+   * This is used to validate and decode the values from CLI arguments, environment variables, files, and prompts.
+   */
+  decode: (schema: TSchema, value: unknown) => E.Either<TError, unknown>;
+  /**
+   * Encodes the value back to the form that user would give, e.g. turning `Date` object back to string.
+   * This is used when recording answers and constructing equivalent command.
+   */
+  encode: (schema: TSchema, value: unknown) => E.Either<TError, unknown>;
+  /**
+   * Formats the error returned by other functions of this adapter to human-readable text.
+   */
+  formatError: (error: TError) => string;
+  /**
+   * Describes the schema as human-readable text, used by help text.
+   */
+  describe: (schema: TSchema) => string;
+  /**
+   * The phantom type of the {@link SchemaTypes}, never present at runtime.
+   */
+  readonly Types?: (_: TTypes) => TTypes;
+}
+
+/**
+ * This type defines a base type for {@link ValidatorAdapter}.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ValidatorAdapterBase = ValidatorAdapter<any, any, any>;
+
+/**
+ * This interface is used to extract the types of the values accepted and produced by the schemas of validation library, given to {@link ValidatorAdapter}.
+ * Extend it with `From` and `To` properties computed from `this["Schema"]`, see {@link adaptSchema} for an example.
+ */
+export interface SchemaTypes {
+  /**
+   * The schema, the types of which to extract.
+   */
+  readonly Schema: unknown;
+  /**
+   * The type of the values accepted by the schema.
+   */
+  readonly From: unknown;
+  /**
+   * The type of the values produced by the schema.
+   */
+  readonly To: unknown;
+}
+
+/**
+ * This type extracts the type of the values accepted by given schema, using given {@link SchemaTypes}.
+ */
+export type From<TTypes extends SchemaTypes, TSchema> = (TTypes & {
+  readonly Schema: TSchema;
+})["From"];
+
+/**
+ * This type extracts the type of the values produced by given schema, using given {@link SchemaTypes}.
+ */
+export type To<TTypes extends SchemaTypes, TSchema> = (TTypes & {
+  readonly Schema: TSchema;
+})["To"];
+
+/**
+ * This interface represents schema of some other validation library than `@effect/schema`, along with its {@link ValidatorAdapter}.
+ * Use {@link adaptSchema} to create instances of this interface.
+ */
+export interface AdaptedSchema<TFrom, TTo> {
+  /**
+   * The identifier of this interface.
+   */
+  readonly [AdaptedSchemaTypeId]: AdaptedSchemaTypeId;
+  /**
+   * The phantom type of the values accepted by the schema, compatible with `S.From` type of `@effect/schema`.
+   */
+  readonly From: (_: TFrom) => TFrom;
+  /**
+   * The phantom type of the values produced by the schema, compatible with `S.To` type of `@effect/schema`.
+   */
+  readonly To: (_: TTo) => TTo;
+  /**
+   * The {@link ValidatorAdapter} to use with the schema.
+   */
+  readonly adapter: ValidatorAdapterBase;
+  /**
+   * The schema of the validation library.
+   */
+  readonly schema: unknown;
+}
+
+/**
+ * This constant is used to identify instances of {@link AdaptedSchema}.
+ */
+export const AdaptedSchemaTypeId: unique symbol = Symbol.for(
+  "meow-inquirer/AdaptedSchema",
+);
+
+/**
+ * This type is the type of {@link AdaptedSchemaTypeId}.
+ */
+export type AdaptedSchemaTypeId = typeof AdaptedSchemaTypeId;
+
+/**
+ * This type defines the type of schema which can be used as `schema` of `ValidationSpec`: either `@effect/schema` schema, or {@link AdaptedSchema}.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type SchemaBase = S.Schema<any> | AdaptedSchema<any, any>;
+
+/**
+ * The {@link ValidatorAdapter} for `@effect/schema`, used for all schemas which are not {@link AdaptedSchema}s.
+ */
+export const effectSchemaAdapter: ValidatorAdapter<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  S.Schema<any>,
+  PR.ParseError
+> = {
+  decode: (schema, value) => S.decodeEither(schema)(value),
+  encode: (schema, value) => S.encodeEither(schema)(value),
+  formatError: ({ errors }) => TF.formatErrors(errors),
+  describe: (schema) => schemaToHelpText(schema.ast),
+};
+
+/**
+ * Checks and decodes the value given by user, using the adapter of given schema.
+ * @param schema The {@link SchemaBase}.
+ * @param value The value to decode.
+ * @returns Either formatted error message, or decoded value.
+ */
+export const decode = (schema: SchemaBase, value: unknown) =>
+  useAdapter(schema, (adapter, adapted) =>
+    formatLeft(adapter, adapter.decode(adapted, value)),
+  );
+
+/**
+ * Encodes the value back to the form that user would give, using the adapter of given schema.
+ * @param schema The {@link SchemaBase}.
+ * @param value The value to encode.
+ * @returns Either formatted error message, or encoded value.
+ */
+export const encode = (schema: SchemaBase, value: unknown) =>
+  useAdapter(schema, (adapter, adapted) =>
+    formatLeft(adapter, adapter.encode(adapted, value)),
+  );
+
+/**
+ * Describes given schema as human-readable text, using the adapter of the schema.
+ * @param schema The {@link SchemaBase}.
+ * @returns The description of the schema.
+ */
+export const describe = (schema: SchemaBase) =>
+  useAdapter(schema, (adapter, adapted) => adapter.describe(adapted));
+
+/**
+ * Gets the `@effect/schema` AST of given schema, used to deduce CLI flags and prompts.
+ * @param schema The {@link SchemaBase}.
+ * @returns The AST of `@effect/schema` schema, or `None` if schema is {@link AdaptedSchema}.
+ */
+export const getAST = (schema: SchemaBase): O.Option<AST.AST> =>
+  isAdaptedSchema(schema) ? O.none() : O.some(schema.ast);
+
+const isAdaptedSchema = (
+  schema: SchemaBase,
+): schema is AdaptedSchema<unknown, unknown> => AdaptedSchemaTypeId in schema;
+
+const useAdapter = <TResult>(
+  schema: SchemaBase,
+  use: (adapter: ValidatorAdapterBase, adapted: unknown) => TResult,
+) =>
+  isAdaptedSchema(schema)
+    ? use(schema.adapter, schema.schema)
+    : use(effectSchemaAdapter, schema);
+
+const formatLeft = (
+  adapter: ValidatorAdapterBase,
+  result: E.Either<unknown, unknown>,
+): E.Either<string, unknown> => E.mapLeft(result, adapter.formatError);